@@ -10,13 +10,27 @@ import { engine as handlebarsEngine } from "express-handlebars";
 import { Config, IRealmConfig } from "./Config";
 import { DbcManager } from "./data/DbcReader";
 import { CharacterCustomization } from "./data/CharacterCustomization";
+import { TalentSpecs } from "./data/TalentSpecs";
+import { Titles } from "./data/Titles";
+import { RatingHistory } from "./data/RatingHistory";
 import { IndexController } from "./controllers/IndexController";
 import { CharacterController } from "./controllers/CharacterController";
 import { GuildController } from "./controllers/GuildController";
 import { ArenaController } from "./controllers/ArenaController";
+import { ApiController } from "./controllers/ApiController";
+import { CraftersController } from "./controllers/CraftersController";
+import { CompareController } from "./controllers/CompareController";
+import { TalentsController } from "./controllers/TalentsController";
+import { TitlesController } from "./controllers/TitlesController";
+import { TooltipController } from "./controllers/TooltipController";
+import { ItemsController } from "./controllers/ItemsController";
+import { BattlegroundController } from "./controllers/BattlegroundController";
 
 export class Armory {
 	public characterCustomization: CharacterCustomization;
+	public talentSpecs: TalentSpecs;
+	public titles: Titles;
+	public ratingHistory: RatingHistory;
 	public dbc: DbcManager;
 	public config: Config;
 	public worldDb: Pool;
@@ -30,6 +44,9 @@ export class Armory {
 	public constructor() {
 		this.dbc = new DbcManager();
 		this.characterCustomization = new CharacterCustomization();
+		this.talentSpecs = new TalentSpecs();
+		this.titles = new Titles();
+		this.ratingHistory = new RatingHistory(this);
 		this.charsDbs = {};
 		this.logger = winston.createLogger({
 			level: "info",
@@ -66,21 +83,30 @@ export class Armory {
 		this.logger.info("Loading config...");
 		this.config = await Config.load(this.logger);
 		this.logger.info("Loading data files...");
+		const missingDbcFiles = this.dbc.getMissingFiles();
+		if (missingDbcFiles.length > 0) {
+			this.logger.warn(`Missing DBC files in the data directory, see "npm run fetchdata": ${missingDbcFiles.join(", ")}`);
+		}
 		if (this.config.loadDbcs) {
 			await this.dbc.loadAllFiles();
 		}
 		await this.characterCustomization.loadData();
+		await this.talentSpecs.load(this.dbc);
+		await this.titles.load(this.dbc);
 
 		this.logger.info("Connecting to databases...");
 		this.worldDb = createPool(this.config.worldDatabase);
 		for (const realm of this.config.realms) {
 			this.charsDbs[realm.name.toLowerCase()] = createPool(realm.charactersDatabase);
 		}
+		await this.ratingHistory.load();
+		this.ratingHistory.start();
 
 		this.logger.info("Starting server...");
 
 		const locals = {
 			aowow: this.config.aowowUrl,
+			localTooltips: this.config.localTooltips,
 			websiteUrl: this.config.websiteUrl,
 			websiteName: this.config.websiteName,
 			websiteRoot: this.config.websiteRoot,
@@ -152,16 +178,91 @@ export class Armory {
 		app.get("/character/:realm/:name/talents", this.wrapRoute(charsController.talents.bind(charsController)));
 		app.get("/character/:realm/:name/achievements", this.wrapRoute(charsController.achievements.bind(charsController)));
 		app.get("/character/:realm/:character/achievements/data", this.wrapRoute(charsController.achievementsData.bind(charsController)));
+		app.get("/character/:realm/:name/statistics", this.wrapRoute(charsController.statistics.bind(charsController)));
+		app.get("/character/:realm/:name/professions", this.wrapRoute(charsController.professions.bind(charsController)));
+		app.get("/character/:realm/:name/reputation", this.wrapRoute(charsController.reputation.bind(charsController)));
 		app.get("/character/:realm/:name/pvp", this.wrapRoute(charsController.pvp.bind(charsController)));
+		app.get("/character/:realm/:name/pets", this.wrapRoute(charsController.pets.bind(charsController)));
+
+		const compareController = new CompareController(this, charsController);
+		app.get("/compare/:realm/:names(*)", this.wrapRoute(compareController.compare.bind(compareController)));
+
+		const tooltipController = new TooltipController(this, charsController);
+		await tooltipController.load();
+		app.get("/tooltip/item/:entry", this.wrapRoute(tooltipController.item.bind(tooltipController)));
+		app.get("/tooltip/spell/:id", this.wrapRoute(tooltipController.spell.bind(tooltipController)));
+
+		const itemsController = new ItemsController(this, charsController);
+		app.get("/items", this.wrapRoute(itemsController.index.bind(itemsController)));
+		app.get("/items/search", this.wrapRoute(itemsController.search.bind(itemsController)));
+		app.get("/item/:entry", this.wrapRoute(itemsController.item.bind(itemsController)));
+		app.get("/item/:entry/equipped", this.wrapRoute(itemsController.equipped.bind(itemsController)));
+
+		const talentsController = new TalentsController(this, charsController);
+		app.get("/talents/:class", this.wrapRoute(talentsController.calculator.bind(talentsController)));
 
 		const guildsController = new GuildController(this);
 		app.get("/guild/:realm/:name", this.wrapRoute(guildsController.guild.bind(guildsController)));
 		app.get("/guild/:realm/:guild/members", this.wrapRoute(guildsController.members.bind(guildsController)));
 
-		const arenaController = new ArenaController(this);
+		const arenaController = new ArenaController(this, charsController);
 		app.get("/arena", this.wrapRoute(arenaController.index.bind(arenaController)));
 		app.get("/arena/ladder", this.wrapRoute(arenaController.ladder.bind(arenaController)));
+		app.get("/arena/stats", this.wrapRoute(arenaController.stats.bind(arenaController)));
 		app.get("/arena/team/:realm/:name", this.wrapRoute(arenaController.team.bind(arenaController)));
+		app.get("/arena/team/:realm/:name/matches", this.wrapRoute(arenaController.teamMatches.bind(arenaController)));
+		app.get("/character/:realm/:name/pvp/matches", this.wrapRoute(arenaController.characterMatches.bind(arenaController)));
+
+		const battlegroundController = new BattlegroundController(this, charsController);
+		app.get("/battlegrounds", this.wrapRoute(battlegroundController.index.bind(battlegroundController)));
+		app.get("/battlegrounds/ladder", this.wrapRoute(battlegroundController.ladder.bind(battlegroundController)));
+		app.get(
+			"/character/:realm/:name/pvp/battlegrounds",
+			this.wrapRoute(battlegroundController.characterBattlegrounds.bind(battlegroundController)),
+		);
+
+		const craftersController = new CraftersController(this, charsController);
+		await craftersController.load();
+		app.get("/crafters", this.wrapRoute(craftersController.index.bind(craftersController)));
+		app.get("/crafters/recipes", this.wrapRoute(craftersController.recipesData.bind(craftersController)));
+		app.get("/crafters/:spell", this.wrapRoute(craftersController.recipe.bind(craftersController)));
+		app.get("/crafters/:spell/search", this.wrapRoute(craftersController.search.bind(craftersController)));
+
+		const titlesController = new TitlesController(this, charsController);
+		app.get("/titles", this.wrapRoute(titlesController.index.bind(titlesController)));
+		app.get("/titles/list", this.wrapRoute(titlesController.titlesData.bind(titlesController)));
+		app.get("/titles/:id", this.wrapRoute(titlesController.charTitle.bind(titlesController)));
+		app.get("/titles/:id/search", this.wrapRoute(titlesController.search.bind(titlesController)));
+
+		const api = express.Router();
+		const apiController = new ApiController(this, charsController);
+		api.get("/character/:realm/:name", this.wrapRoute(apiController.character.bind(apiController)));
+		api.get("/character/:realm/:name/equipment", this.wrapRoute(apiController.equipment.bind(apiController)));
+		api.get("/character/:realm/:name/stats", this.wrapRoute(apiController.stats.bind(apiController)));
+		api.get("/character/:realm/:name/talents", this.wrapRoute(apiController.talents.bind(apiController)));
+		api.get("/character/:realm/:name/glyphs", this.wrapRoute(apiController.glyphs.bind(apiController)));
+		api.get("/character/:realm/:name/professions", this.wrapRoute(apiController.professions.bind(apiController)));
+		api.get("/character/:realm/:name/achievements", this.wrapRoute(apiController.achievements.bind(apiController)));
+		api.get("/character/:realm/:name/mounts", this.wrapRoute(apiController.mounts.bind(apiController)));
+		api.get("/character/:realm/:name/companions", this.wrapRoute(apiController.companions.bind(apiController)));
+		api.get("/character/:realm/:name/titles", this.wrapRoute(apiController.titles.bind(apiController)));
+		api.get("/character/:realm/:name/arena-teams", this.wrapRoute(apiController.arenaTeams.bind(apiController)));
+		api.use((err, req: express.Request, res: express.Response, next: express.NextFunction) => {
+			// API error handler, responds with a JSON body instead of the error page
+
+			if (err instanceof Error) {
+				const contents = err.stack ?? `${err.name}: ${err.message}`;
+				this.logger.error(`Error on request ${req.id}. ${contents}`);
+			}
+
+			const status = typeof err === "number" ? err : 500;
+			res.status(status).json(this.getErrorJsonData(status, req));
+		});
+		api.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+			// API 404 handler
+			res.status(404).json(this.getErrorJsonData(404, req));
+		});
+		app.use("/api/v1", api);
 
 		app.use((err, req: express.Request, res: express.Response, next: express.NextFunction) => {
 			// Error handler
@@ -261,4 +362,13 @@ export class Armory {
 			reqId: req.id,
 		};
 	}
+
+	private getErrorJsonData(status: number, req: express.Request) {
+		return {
+			status,
+			error: this.errorNames[status] || "An error occurred",
+			description: this.errorDescriptions[status] || "",
+			requestId: req.id,
+		};
+	}
 }
@@ -25,6 +25,7 @@ export interface IIframeModeConfig {
 
 export class Config {
 	public aowowUrl: string;
+	public localTooltips: boolean;
 	public websiteUrl: string;
 	public websiteName: string;
 	public websiteRoot: string;
@@ -36,6 +37,7 @@ export class Config {
 	public realms: IRealmConfig[];
 	public worldDatabase: IDatabaseConfig;
 	public dbQueryTimeout: number;
+	public ratingHistoryInterval: number;
 
 	private static envPrefix = "ACORE_ARMORY";
 	private static checkedMissingField = false;
@@ -10,6 +10,7 @@ export interface IResult {
 
 export interface IColumnSettings {
 	name: string;
+	expression?: string;
 	collation?: string;
 	formatter?: (data: string | number | null, row: unknown) => string;
 	table?: string;
@@ -24,6 +25,8 @@ export interface IColumnJoin {
 	database2?: string;
 	kind: "INNER" | "FULL OUTER" | "LEFT" | "RIGHT";
 	where?: string;
+	// Derived table joined under the name of table2, e.g. rows aggregated once instead of a subquery per row
+	subquery?: string;
 }
 
 export class DataTablesSsp {
@@ -66,9 +69,9 @@ export class DataTablesSsp {
 	private orderSql = "";
 	private joinSql = "";
 
-	public constructor(query: Query, db: Pool, table: string, primaryKey: string, columnSettings: IColumnSettings[]) {
+	public constructor(query: Query, db: Pool, table: string, primaryKey: string, columnSettings: IColumnSettings[], maxLength = 100) {
 		this.start = Math.max(0, parseInt(query.start as string, 10));
-		this.length = Math.min(100, Math.max(0, parseInt(query.length as string, 10)));
+		this.length = Math.min(maxLength, Math.max(0, parseInt(query.length as string, 10)));
 		this.draw = parseInt(query.draw as string, 10);
 		this._order = (query.order as { column: string; dir: string }[]).map((order) => {
 			return { column: parseInt(order.column, 10), dir: order.dir };
@@ -96,6 +99,10 @@ export class DataTablesSsp {
 	}
 
 	private colSettingsToStr(colSettings: IColumnSettings) {
+		if (colSettings.expression !== undefined) {
+			// Computed column, e.g. a subquery
+			return `(${colSettings.expression})`;
+		}
 		const db = colSettings.database ? "`" + colSettings.database + "`." : "";
 		return `${db}\`${colSettings.table || this.table}\`.\`${colSettings.name}\``;
 	}
@@ -135,7 +142,8 @@ export class DataTablesSsp {
 		for (const join of this.joins) {
 			const db2 = join.database2 ? `\`${join.database2}\`.` : "";
 			const where = join.where ? ` ${join.where}` : "";
-			this.joinSql += `${join.kind} JOIN ${db2}\`${join.table2}\` ON ${db2}\`${join.table2}\`.\`${join.column2}\` = \`${join.table1}\`.\`${join.column1}\`${where}\n`;
+			const table2 = join.subquery !== undefined ? `(${join.subquery}) AS \`${join.table2}\`` : `${db2}\`${join.table2}\``;
+			this.joinSql += `${join.kind} JOIN ${table2} ON ${db2}\`${join.table2}\`.\`${join.column2}\` = \`${join.table1}\`.\`${join.column1}\`${where}\n`;
 		}
 
 		return this;
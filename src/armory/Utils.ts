@@ -36,9 +36,10 @@ export class Utils {
 		9: "warlock",
 		11: "druid",
 	};
+	public static allianceRaces = [1, 3, 4, 7, 11];
 
 	public static getFactionFromRaceId(race: number): EFaction {
-		return [1, 3, 4, 7, 11].includes(race) ? EFaction.Alliance : EFaction.Horde;
+		return Utils.allianceRaces.includes(race) ? EFaction.Alliance : EFaction.Horde;
 	}
 
 	public static makeEmblemObject(
@@ -60,4 +61,14 @@ export class Utils {
 			background: obj.background.toString().padStart(padLength, "0"),
 		};
 	}
+
+	public static processSpellIconTexture(texturePath: string): string {
+		return texturePath.toLowerCase().replace("interface\\icons\\", "").replace("interface\\spellbook\\", "").replace(/\.$/, "");
+	}
+
+	public static formatMoney(copper: number): string {
+		const gold = Math.floor(copper / 10000);
+		const silver = Math.floor((copper % 10000) / 100);
+		return [gold > 0 ? `${gold}g` : "", gold > 0 || silver > 0 ? `${silver}s` : "", `${copper % 100}c`].filter((s) => s !== "").join(" ");
+	}
 }
@@ -0,0 +1,376 @@
+import * as express from "express";
+
+import { Armory } from "../Armory";
+import { IRealmConfig } from "../Config";
+import { IEmblem, Utils, EFaction } from "../Utils";
+import { IStatSheet } from "../data/StatSheet";
+import { CharacterController, ICharacterData, IEquipmentData, IProfessions, ISocket } from "./CharacterController";
+
+interface ICharacterProfile {
+	realm: string;
+	guid: number;
+	name: string;
+	title: string | null;
+	level: number;
+	race: string;
+	class: string;
+	gender: string;
+	faction: string;
+	guild: string | null;
+	online: boolean;
+}
+
+interface IEquipmentItem {
+	slot: number;
+	entry: number;
+	name: string;
+	quality: number;
+	itemLevel: number;
+	icon: string | null;
+	enchantments: number[];
+	enchantmentNames: string[];
+	gems: number[];
+	sockets: ISocket[];
+	socketBonusActive: boolean;
+	randomPropertyId: number;
+	suffix: string | null;
+	transmog?: number | null;
+}
+
+interface ITalentGroup {
+	index: number;
+	spells: number[];
+}
+
+interface ITalentTree {
+	name: string;
+	icon: string;
+	talents: {
+		id: number;
+		tier: number;
+		column: number;
+		ranks: number[];
+		icon: string;
+	}[];
+}
+
+interface IGlyphGroup {
+	index: number;
+	spells: number[];
+}
+
+interface IEarnedAchievement {
+	id: number;
+	date: number;
+}
+
+interface IAchievementsPayload {
+	points: number;
+	earned: IEarnedAchievement[];
+}
+
+interface IMountPayload {
+	spell: number;
+	creatureDisplayId: number;
+	icon: string;
+}
+
+interface ICompanionPayload {
+	spell: number;
+	creatureDisplayId: number;
+	icon: string;
+}
+
+interface ITitlePayload {
+	id: number;
+	name: string;
+}
+
+interface IArenaTeamPayload {
+	id: number;
+	name: string;
+	type: number;
+	rating: number;
+	seasonGames: number;
+	seasonWins: number;
+	emblem: IEmblem;
+}
+
+interface ICharacterPayload extends ICharacterProfile {
+	averageItemLevel: number;
+	gearScore: number;
+	equipment: IEquipmentItem[];
+	stats: IStatSheet;
+	talents: ITalentGroup[];
+	glyphs: IGlyphGroup[];
+	professions: IProfessions;
+	achievements: IAchievementsPayload;
+	mounts: IMountPayload[];
+	companions: ICompanionPayload[];
+	titles: ITitlePayload[];
+	arenaTeams: IArenaTeamPayload[];
+}
+
+export class ApiController {
+	private armory: Armory;
+	private characters: CharacterController;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async character(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+		const { realm, charData } = found;
+
+		const equipment = await this.characters.getEquipment(realm.name, charData.guid);
+		const payload: ICharacterPayload = {
+			...this.makeProfile(realm, charData),
+			...(await this.characters.getGearSummary(realm.name, charData.guid)),
+			equipment: this.makeEquipment(equipment),
+			stats: await this.characters.getStats(equipment),
+			talents: await this.getTalentGroups(realm, charData),
+			glyphs: await this.getGlyphGroups(realm, charData),
+			professions: await this.characters.getProfessions(realm.name, charData.guid),
+			achievements: await this.getAchievements(realm, charData),
+			mounts: await this.getMounts(realm, charData),
+			companions: await this.getCompanions(realm, charData),
+			titles: this.getTitles(charData),
+			arenaTeams: await this.getArenaTeams(realm, charData),
+		};
+		res.json(payload);
+	}
+
+	public async equipment(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		const equipment = await this.characters.getEquipment(found.realm.name, found.charData.guid);
+		res.json(this.makeEquipment(equipment));
+	}
+
+	public async stats(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		const equipment = await this.characters.getEquipment(found.realm.name, found.charData.guid);
+		res.json(await this.characters.getStats(equipment));
+	}
+
+	public async talents(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		const trees = await this.characters.getTalentTrees(found.charData.class);
+		res.json({
+			groups: await this.getTalentGroups(found.realm, found.charData),
+			trees: trees.map(
+				(tree): ITalentTree => ({
+					name: tree.name,
+					icon: tree.icon,
+					talents: tree.spells.map((talent) => ({
+						id: talent.id,
+						tier: talent.tierId,
+						column: talent.columnIndex,
+						ranks: [talent.spellRank0, talent.spellRank1, talent.spellRank2, talent.spellRank3, talent.spellRank4].filter((r) => r !== 0),
+						icon: talent.icon,
+					})),
+				}),
+			),
+		});
+	}
+
+	public async glyphs(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(await this.getGlyphGroups(found.realm, found.charData));
+	}
+
+	public async professions(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(await this.characters.getProfessions(found.realm.name, found.charData.guid));
+	}
+
+	public async achievements(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(await this.getAchievements(found.realm, found.charData));
+	}
+
+	public async mounts(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(await this.getMounts(found.realm, found.charData));
+	}
+
+	public async companions(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(await this.getCompanions(found.realm, found.charData));
+	}
+
+	public async titles(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(this.getTitles(found.charData));
+	}
+
+	public async arenaTeams(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const found = await this.findCharacter(req);
+		if (found === null) {
+			return next(404);
+		}
+
+		res.json(await this.getArenaTeams(found.realm, found.charData));
+	}
+
+	private async findCharacter(req: express.Request): Promise<{ realm: IRealmConfig; charData: ICharacterData }> {
+		const realm = this.armory.getRealm(req.params.realm);
+		if (realm === undefined) {
+			// Could not find realm
+			return null;
+		}
+
+		const charData = await this.characters.getCharacterData(realm, req.params.name);
+		if (charData === null) {
+			// Could not find character
+			return null;
+		}
+
+		return { realm, charData };
+	}
+
+	private makeProfile(realm: IRealmConfig, charData: ICharacterData): ICharacterProfile {
+		const chosenTitle = this.armory.titles.getChosenTitle(charData.chosenTitle);
+		return {
+			realm: realm.name,
+			guid: charData.guid,
+			name: charData.name,
+			title: chosenTitle !== null ? `${chosenTitle.prefix}${charData.name}${chosenTitle.suffix}` : null,
+			level: charData.level,
+			race: Utils.raceNames[charData.race],
+			class: Utils.classNames[charData.class],
+			gender: charData.gender === 0 ? "male" : "female",
+			faction: EFaction[Utils.getFactionFromRaceId(charData.race)].toLowerCase(),
+			guild: charData.guild ?? null,
+			online: charData.online === 1,
+		};
+	}
+
+	private makeEquipment(equipment: IEquipmentData[]): IEquipmentItem[] {
+		return equipment.map((item) => {
+			const payload: IEquipmentItem = {
+				slot: item.slot,
+				entry: item.itemEntry,
+				name: item.name,
+				quality: item.quality,
+				itemLevel: item.itemLevel,
+				icon: item.icon !== undefined ? item.icon.toString().toLowerCase() : null,
+				enchantments: item.enchantments as number[],
+				enchantmentNames: item.enchantmentNames,
+				gems: item.gems,
+				sockets: item.sockets,
+				socketBonusActive: item.socketBonusActive,
+				randomPropertyId: item.randomPropertyId,
+				suffix: item.suffix,
+			};
+			if (this.armory.config.transmogModule) {
+				payload.transmog = item.transmog ?? null;
+			}
+			return payload;
+		});
+	}
+
+	private async getTalentGroups(realm: IRealmConfig, charData: ICharacterData): Promise<ITalentGroup[]> {
+		const talents = await this.characters.getTalents(realm.name, charData.guid);
+		return talents.map((spells, index) => ({ index, spells }));
+	}
+
+	private async getGlyphGroups(realm: IRealmConfig, charData: ICharacterData): Promise<IGlyphGroup[]> {
+		const glyphs = await this.characters.getGlyphs(realm.name, charData.guid);
+		return glyphs.map((spells, index) => ({ index, spells }));
+	}
+
+	private async getAchievements(realm: IRealmConfig, charData: ICharacterData): Promise<IAchievementsPayload> {
+		const { achievements, earned } = await this.characters.getAchievements(realm.name, charData);
+
+		let points = 0;
+		for (const ach of achievements) {
+			if (ach.id in earned) {
+				points += ach.points;
+			}
+		}
+
+		return {
+			points,
+			earned: Object.keys(earned).map((id) => ({ id: parseInt(id, 10), date: earned[id] })),
+		};
+	}
+
+	private async getMounts(realm: IRealmConfig, charData: ICharacterData): Promise<IMountPayload[]> {
+		const mounts = await this.characters.getMounts(realm.name, charData.guid);
+		return mounts.map((mount) => ({
+			spell: mount.spell,
+			creatureDisplayId: mount.creatureDisplayId,
+			icon: mount.icon,
+		}));
+	}
+
+	private async getCompanions(realm: IRealmConfig, charData: ICharacterData): Promise<ICompanionPayload[]> {
+		const companions = await this.characters.getCompanions(realm.name, charData.guid);
+		return companions.map((companion) => ({
+			spell: companion.spell,
+			creatureDisplayId: companion.creatureDisplayId,
+			icon: companion.icon,
+		}));
+	}
+
+	private getTitles(charData: ICharacterData): ITitlePayload[] {
+		return this.armory.titles.getKnownTitles(charData.knownTitles).map((title) => ({
+			id: title.id,
+			name: title.name,
+		}));
+	}
+
+	private async getArenaTeams(realm: IRealmConfig, charData: ICharacterData): Promise<IArenaTeamPayload[]> {
+		const teams = await this.characters.getArenaTeams(realm.name, charData.guid);
+		return teams.map((team) => ({
+			id: team.id,
+			name: team.name,
+			type: team.type,
+			rating: team.rating,
+			seasonGames: team.seasonGames,
+			seasonWins: team.seasonWins,
+			emblem: team.emblem,
+		}));
+	}
+}
@@ -1,10 +1,13 @@
 import * as express from "express";
+import { Query } from "express-serve-static-core";
 import { RowDataPacket } from "mysql2";
 
 import { Armory } from "../Armory";
 import { IRealmConfig } from "../Config";
-import { IEmblem, Utils } from "../Utils";
-import { DataTablesSsp } from "../DataTablesSsp";
+import { EFaction, IEmblem, Utils } from "../Utils";
+import { DataTablesSsp, IColumnSettings } from "../DataTablesSsp";
+import { CharacterController, ClassDisplayName } from "./CharacterController";
+import { TalentSpecs } from "../data/TalentSpecs";
 
 interface ITeamMemberData {
 	name: string;
@@ -20,6 +23,7 @@ interface ITeamMemberData {
 }
 
 interface ITeamData {
+	id: number;
 	name: string;
 	captainGuid: number;
 	type: number;
@@ -32,17 +36,77 @@ interface ITeamData {
 	members: ITeamMemberData[];
 }
 
+interface IComposition {
+	classes: { name: string; icon: string }[];
+	teams: number;
+	averageRating: number;
+	winRate: number | null;
+}
+
+interface IRepresentation {
+	name: string;
+	icon: string | null;
+	count: number;
+	share: number;
+}
+
+interface IBracketStats {
+	type: number;
+	teams: number;
+	compositions: IComposition[];
+	topTeams: number;
+	topClasses: IRepresentation[];
+	topSpecs: IRepresentation[];
+}
+
+interface IMatchMember {
+	name: string;
+	team: number;
+	class: string | null;
+	damage: number;
+	healing: number;
+	killingBlows: number;
+}
+
+// Index of the rating in the rows of the ladder
+const LadderRatingColumn = 4;
+// Rows of the ladder of every realm that can be paged through, as each realm has to return all the rows up to the requested page
+const LadderAllRealmsMaxRows = 1000;
+
 export class ArenaController {
 	private armory: Armory;
+	private characters: CharacterController;
 
-	public constructor(armory: Armory) {
+	public constructor(armory: Armory, characters: CharacterController) {
 		this.armory = armory;
+		this.characters = characters;
 	}
 
 	public async index(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
 		res.render("ladder-arena.hbs", {
 			title: `Arena Ladder`,
 			realms: this.armory.config.realms.map((r) => r.name),
+			classes: Object.keys(ClassDisplayName).map((id) => ({ id, name: ClassDisplayName[id] })),
+		});
+	}
+
+	public async stats(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realmName = req.query.realm as string;
+		const realm = realmName === undefined ? this.armory.config.realms[0] : this.armory.config.realms.find((r) => r.name === realmName);
+		if (realm === undefined) {
+			return next(400);
+		}
+
+		const minRating = Math.max(0, parseInt(req.query.minRating as string, 10) || 0);
+		const top = Math.min(1000, Math.max(1, parseInt(req.query.top as string, 10) || 100));
+
+		res.render("arena-stats.hbs", {
+			title: "Arena Statistics",
+			realms: this.armory.config.realms.map((r) => r.name),
+			realm: realm.name,
+			minRating,
+			top,
+			brackets: await Promise.all([2, 3, 5].map((type) => this.getBracketStats(realm, type, minRating, top))),
 		});
 	}
 
@@ -66,13 +130,16 @@ export class ArenaController {
 			title: `Armory - ${teamData.name}`,
 			realm: realm.name,
 			...teamData,
+			ratingHistory: this.armory.ratingHistory.getTeamHistory(realm.name, teamData.id),
 		});
 	}
 
 	public async ladder(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		// An empty realm shows the teams of every realm
 		const realmName = req.query.realm as string;
+		const allRealms = realmName === "";
 		const realm = realmName === undefined ? this.armory.config.realms[0] : this.armory.config.realms.find((r) => r.name === realmName);
-		if (realm === undefined) {
+		if (realm === undefined && !allRealms) {
 			return next(400);
 		}
 
@@ -81,25 +148,358 @@ export class ArenaController {
 			return next(400);
 		}
 
+		if (!allRealms) {
+			const result = await (await this.makeLadderSsp(req.query, realm, teamSize)).run(this.armory.config.dbQueryTimeout);
+			res.json({
+				...result,
+				data: result.data.map((row) => [...row, realm.name]),
+				realm: realm.name,
+				teamSize,
+			});
+			return;
+		}
+
+		// Every realm returns the rows up to the requested page, which are then merged and ordered together
+		const start = Math.max(0, parseInt(req.query.start as string, 10));
+		const length = Math.min(100, Math.max(0, parseInt(req.query.length as string, 10)));
+		if (!(start + length <= LadderAllRealmsMaxRows)) {
+			return next(400);
+		}
+		const query = { ...req.query, start: "0", length: `${start + length}` };
+		const results = await Promise.all(
+			this.armory.config.realms.map(async (r) =>
+				(await this.makeLadderSsp(query, r, teamSize, start + length)).run(this.armory.config.dbQueryTimeout),
+			),
+		);
+		const rows = results.flatMap((result, i) => result.data.map((row) => [...row, this.armory.config.realms[i].name]));
+
+		const order = ((req.query.order as { column: string; dir: string }[]) ?? []).map((o) => ({
+			column: parseInt(o.column, 10),
+			dir: o.dir === "desc" ? -1 : 1,
+		}));
+		rows.sort((a, b) => {
+			for (const o of order) {
+				// Ranks only make sense within a realm, the ratings are compared instead
+				const [column, dir] = o.column === 0 ? [LadderRatingColumn, -o.dir] : [o.column, o.dir];
+				const [x, y] = [a[column], b[column]];
+				const cmp = typeof x === "number" && typeof y === "number" ? x - y : String(x ?? "").localeCompare(String(y ?? ""));
+				if (cmp !== 0) {
+					return cmp * dir;
+				}
+			}
+			return 0;
+		});
+
+		const page = rows.slice(start, start + length);
+		const ratingCounts = await this.getRatingCounts(teamSize);
+		for (const row of page) {
+			row[0] = 1 + ratingCounts.filter((r) => r.rating > row[LadderRatingColumn]).reduce((sum, r) => sum + r.count, 0);
+		}
+
+		res.json({
+			recordsTotal: results.reduce((sum, result) => sum + result.recordsTotal, 0),
+			// Limited so that the pagination does not go past the last page that can be requested
+			recordsFiltered: Math.min(
+				LadderAllRealmsMaxRows,
+				results.reduce((sum, result) => sum + result.recordsFiltered, 0),
+			),
+			draw: results[0]?.draw,
+			data: page,
+			realm: null,
+			teamSize,
+		});
+	}
+
+	public async teamMatches(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realm = this.armory.getRealm(req.params.realm);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
 		const db = this.armory.getCharactersDb(realm.name);
-		const charSet = await this.armory.getDatabaseCharset(realm.name);
+		const [rows] = await db.query({
+			sql: "SELECT arenaTeamId FROM arena_team WHERE name = ?",
+			values: [req.params.name],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		if ((rows as RowDataPacket[]).length === 0) {
+			// Could not find team
+			return next(404);
+		}
+		const teamId: number = rows[0].arenaTeamId;
+
+		const ssp = new DataTablesSsp(req.query, db, "log_arena_fights", "fight_id", this.makeMatchColumns(`${teamId}`));
+		ssp.extraDataColumns = [`${teamId}`];
+		const result = await ssp
+			.where("? IN (`log_arena_fights`.`winner`, `log_arena_fights`.`loser`)", teamId)
+			.run(this.armory.config.dbQueryTimeout);
+
+		res.json({
+			...result,
+			members: await this.getMatchMembers(realm.name, result.data),
+		});
+	}
+
+	public async characterMatches(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realm = this.armory.getRealm(req.params.realm);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
 
-		const ssp = new DataTablesSsp(req.query, db, "arena_team", "arenaTeamId", [
-			{ name: "name", collation: `${charSet}_general_ci` },
-			{ name: "rating" },
-			{ name: "seasonWins" },
-			{ name: "seasonGames" },
-		]);
+		const charData = await this.characters.getCharacterData(realm, req.params.name);
+		if (charData === null) {
+			// Could not find character
+			return next(404);
+		}
 
-		const result = await ssp.where("`type` = " + teamSize).run(this.armory.config.dbQueryTimeout);
+		const db = this.armory.getCharactersDb(realm.name);
+		const teamSql = "`log_arena_memberstats`.`team`";
+		const ssp = new DataTablesSsp(req.query, db, "log_arena_fights", "fight_id", this.makeMatchColumns(teamSql));
+		ssp.joins = [
+			{
+				table1: "log_arena_fights",
+				column1: "fight_id",
+				table2: "log_arena_memberstats",
+				column2: "fight_id",
+				kind: "INNER",
+				where: `AND \`log_arena_memberstats\`.\`guid\` = ${charData.guid}`,
+			},
+		];
+		ssp.extraDataColumns = [teamSql];
+		const result = await ssp.run(this.armory.config.dbQueryTimeout);
 
 		res.json({
 			...result,
-			realm: realm.name,
-			teamSize,
+			members: await this.getMatchMembers(realm.name, result.data),
 		});
 	}
 
+	private async makeLadderSsp(query: Query, realm: IRealmConfig, teamSize: number, maxLength?: number): Promise<DataTablesSsp> {
+		const db = this.armory.getCharactersDb(realm.name);
+		const charSet = await this.armory.getDatabaseCharset(realm.name);
+		const ssp = new DataTablesSsp(
+			query,
+			db,
+			"arena_team",
+			"arenaTeamId",
+			[
+				{
+					// The rank of a team among all the teams of its bracket, whatever the filters
+					name: "rank",
+					expression: `
+						SELECT COUNT(*) + 1
+						FROM arena_team ladder_rank
+						WHERE ladder_rank.type = \`arena_team\`.\`type\` AND ladder_rank.rating > \`arena_team\`.\`rating\`
+					`,
+				},
+				{ name: "name", collation: `${charSet}_general_ci` },
+				// Arena teams are restricted to the faction of their captain
+				{
+					table: "characters",
+					name: "race",
+					formatter: (race) => (race === null ? "" : EFaction[Utils.getFactionFromRaceId(race as number)]),
+				},
+				{
+					name: "classes",
+					expression: `
+						SELECT GROUP_CONCAT(ladder_member.class ORDER BY ladder_member.class)
+						FROM arena_team_member
+						INNER JOIN characters ladder_member ON ladder_member.guid = arena_team_member.guid
+						WHERE arena_team_member.arenaTeamId = \`arena_team\`.\`arenaTeamId\`
+					`,
+					formatter: (classes) => (classes === null ? [] : String(classes).split(",")).map((cls) => Utils.classNames[cls]).join(","),
+				},
+				{ name: "rating" },
+				{ name: "seasonWins" },
+				{ name: "seasonGames" },
+				{ table: "characters", name: "name", collation: `${charSet}_general_ci` },
+			],
+			maxLength,
+		);
+		ssp.joins = [{ table1: "arena_team", column1: "captainGuid", table2: "characters", column2: "guid", kind: "LEFT" }];
+		ssp.where("`arena_team`.`type` = ?", teamSize);
+
+		const faction = query.faction as string;
+		if (faction === "alliance" || faction === "horde") {
+			ssp.where(`\`characters\`.\`race\` ${faction === "alliance" ? "IN" : "NOT IN"} (${Utils.allianceRaces.join(", ")})`);
+		}
+
+		const classId = parseInt(query.class as string, 10);
+		if (!isNaN(classId)) {
+			ssp.where(
+				`EXISTS (
+					SELECT 1
+					FROM arena_team_member
+					INNER JOIN characters ladder_member ON ladder_member.guid = arena_team_member.guid
+					WHERE arena_team_member.arenaTeamId = \`arena_team\`.\`arenaTeamId\` AND ladder_member.class = ?
+				)`,
+				classId,
+			);
+		}
+
+		const minGames = parseInt(query.minGames as string, 10);
+		if (!isNaN(minGames)) {
+			ssp.where("`arena_team`.`seasonGames` >= ?", minGames);
+		}
+
+		return ssp;
+	}
+
+	// Number of teams of every rating in a bracket, over all the realms
+	private async getRatingCounts(teamSize: number): Promise<{ rating: number; count: number }[]> {
+		const counts = await Promise.all(
+			this.armory.config.realms.map(async (realm) => {
+				const [rows] = await this.armory.getCharactersDb(realm.name).query({
+					sql: "SELECT rating, COUNT(*) AS count FROM arena_team WHERE type = ? GROUP BY rating",
+					values: [teamSize],
+					timeout: this.armory.config.dbQueryTimeout,
+				});
+				return rows as { rating: number; count: number }[];
+			}),
+		);
+		return counts.flat();
+	}
+
+	private async getBracketStats(realm: IRealmConfig, type: number, minRating: number, top: number): Promise<IBracketStats> {
+		const [rows] = await this.armory.getCharactersDb(realm.name).query({
+			sql: `
+				SELECT
+					arena_team.arenaTeamId, arena_team.rating, arena_team.seasonGames, arena_team.seasonWins,
+					arena_team_member.seasonGames AS memberGames, characters.class,
+					(${TalentSpecs.activeTalentsSql("characters.guid", "characters.activeTalentGroup")}) AS talents
+				FROM arena_team
+				INNER JOIN arena_team_member ON arena_team_member.arenaTeamId = arena_team.arenaTeamId
+				INNER JOIN characters ON characters.guid = arena_team_member.guid
+				WHERE arena_team.type = ? AND arena_team.rating >= ?
+				ORDER BY arena_team.rating DESC, arena_team.arenaTeamId, memberGames DESC
+			`,
+			values: [type, minRating],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		// Teams can have more members than their bracket size, the composition of a team is made of the members who played the most games
+		const teams: { id: number; rating: number; games: number; wins: number; members: { class: number; talents: string | null }[] }[] = [];
+		for (const row of rows as RowDataPacket[]) {
+			let team = teams[teams.length - 1];
+			if (team === undefined || team.id !== row.arenaTeamId) {
+				team = { id: row.arenaTeamId, rating: row.rating, games: row.seasonGames, wins: row.seasonWins, members: [] };
+				teams.push(team);
+			}
+			if (team.members.length < type) {
+				team.members.push({ class: row.class, talents: row.talents });
+			}
+		}
+
+		const compositions: { [key: string]: { classes: number[]; teams: number; ratings: number; games: number; wins: number } } = {};
+		for (const team of teams) {
+			const classes = team.members.map((member) => member.class).sort((a, b) => a - b);
+			const key = classes.join(",");
+			if (!(key in compositions)) {
+				compositions[key] = { classes, teams: 0, ratings: 0, games: 0, wins: 0 };
+			}
+			compositions[key].teams++;
+			compositions[key].ratings += team.rating;
+			compositions[key].games += team.games;
+			compositions[key].wins += team.wins;
+		}
+
+		const topTeams = teams.slice(0, top);
+		const topClasses: { [key: string]: IRepresentation } = {};
+		const topSpecs: { [key: string]: IRepresentation } = {};
+		const topMembers = topTeams.flatMap((team) => team.members);
+		for (const member of topMembers) {
+			const className = ClassDisplayName[member.class];
+			if (!(className in topClasses)) {
+				topClasses[className] = { name: className, icon: `class_${Utils.classNames[member.class]}`, count: 0, share: 0 };
+			}
+			topClasses[className].count++;
+
+			const spec = this.armory.talentSpecs.getSpec(member.class, TalentSpecs.parseActiveTalents(member.talents));
+			const specName = spec.name === null ? `${className} (no talents)` : `${spec.name} ${className}`;
+			if (!(specName in topSpecs)) {
+				topSpecs[specName] = { name: specName, icon: spec.icon, count: 0, share: 0 };
+			}
+			topSpecs[specName].count++;
+		}
+		const byCount = (representations: { [key: string]: IRepresentation }) =>
+			Object.values(representations)
+				.map((r) => ({ ...r, share: (r.count / topMembers.length) * 100 }))
+				.sort((a, b) => b.count - a.count);
+
+		return {
+			type,
+			teams: teams.length,
+			compositions: Object.values(compositions)
+				.map((composition) => ({
+					classes: composition.classes.map((cls) => ({ name: ClassDisplayName[cls], icon: `class_${Utils.classNames[cls]}` })),
+					teams: composition.teams,
+					averageRating: Math.round(composition.ratings / composition.teams),
+					winRate: composition.games === 0 ? null : (composition.wins / composition.games) * 100,
+				}))
+				.sort((a, b) => b.teams - a.teams || b.averageRating - a.averageRating),
+			topTeams: topTeams.length,
+			topClasses: byCount(topClasses),
+			topSpecs: byCount(topSpecs),
+		};
+	}
+
+	// Columns of the match history, seen from the team selected by teamSql
+	private makeMatchColumns(teamSql: string): IColumnSettings[] {
+		const won = `\`log_arena_fights\`.\`winner\` = ${teamSql}`;
+		return [
+			{ name: "time" },
+			{ name: "type" },
+			{
+				name: "opponent",
+				expression: `SELECT name FROM arena_team WHERE arenaTeamId = IF(${won}, \`log_arena_fights\`.\`loser\`, \`log_arena_fights\`.\`winner\`)`,
+			},
+			{ name: "won", expression: won },
+			{ name: "rating", expression: `IF(${won}, \`log_arena_fights\`.\`winner_tr\`, \`log_arena_fights\`.\`loser_tr\`)` },
+			{
+				name: "ratingChange",
+				expression: `IF(${won}, \`log_arena_fights\`.\`winner_tr_change\`, \`log_arena_fights\`.\`loser_tr_change\`)`,
+			},
+			{ name: "duration" },
+			{ name: "fight_id" },
+		];
+	}
+
+	private async getMatchMembers(realm: string, matches: unknown[][]): Promise<{ [key: number]: IMatchMember[] }> {
+		const fightIds = matches.map((match) => match[7]);
+		if (fightIds.length === 0) {
+			return {};
+		}
+
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT log_arena_memberstats.fight_id, log_arena_memberstats.name, log_arena_memberstats.team, damage, heal, kblows, characters.class
+				FROM log_arena_memberstats
+				LEFT JOIN characters ON characters.guid = log_arena_memberstats.guid
+				WHERE fight_id IN (?)
+			`,
+			values: [fightIds],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		const members: { [key: number]: IMatchMember[] } = {};
+		for (const row of rows as RowDataPacket[]) {
+			if (!(row.fight_id in members)) {
+				members[row.fight_id] = [];
+			}
+			members[row.fight_id].push({
+				name: row.name,
+				team: row.team,
+				class: row.class !== null ? Utils.classNames[row.class] : null,
+				damage: row.damage,
+				healing: row.heal,
+				killingBlows: row.kblows,
+			});
+		}
+		return members;
+	}
+
 	private async getTeamData(realm: IRealmConfig, teamName: string): Promise<ITeamData> {
 		const db = this.armory.getCharactersDb(realm.name);
 		const [rows] = await db.query({
@@ -141,6 +541,7 @@ export class ArenaController {
 		});
 
 		return {
+			id: team.arenaTeamId,
 			name: team.name,
 			captainGuid: team.captainGuid,
 			type: team.type,
@@ -0,0 +1,138 @@
+import * as express from "express";
+
+import { Utils } from "../Utils";
+import { Armory } from "../Armory";
+import { DataTablesSsp } from "../DataTablesSsp";
+import { CharacterController } from "./CharacterController";
+import { BattlegroundNames, BattlegroundObjectivesSql } from "../data/Battlegrounds";
+
+export class BattlegroundController {
+	private armory: Armory;
+	private characters: CharacterController;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async index(req: express.Request, res: express.Response): Promise<void> {
+		res.render("ladder-battleground.hbs", {
+			title: "Battleground Ladder",
+			realms: this.armory.config.realms.map((r) => r.name),
+			battlegrounds: Object.keys(BattlegroundNames).map((id) => ({ id, name: BattlegroundNames[id] })),
+		});
+	}
+
+	public async ladder(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realmName = req.query.realm as string;
+		const realm = realmName === undefined ? this.armory.config.realms[0] : this.armory.config.realms.find((r) => r.name === realmName);
+		if (realm === undefined) {
+			return next(400);
+		}
+
+		// Optional battleground type, all battlegrounds are counted otherwise
+		const bgType = parseInt(req.query.type as string, 10);
+		const bgTypeSql = isNaN(bgType) ? "" : `WHERE pvpstats_battlegrounds.type = ${bgType}`;
+		// The statistics are aggregated once for all characters, only those who played a battleground are joined
+		const statsSql = `
+			SELECT
+				pvpstats_players.character_guid,
+				COUNT(*) AS games,
+				CAST(SUM(pvpstats_players.winner = 1) AS SIGNED) AS wins,
+				CAST(SUM(score_killing_blows) AS SIGNED) AS killingBlows,
+				CAST(SUM(score_deaths) AS SIGNED) AS deaths,
+				CAST(SUM(score_honorable_kills) AS SIGNED) AS honorableKills,
+				CAST(SUM(score_bonus_honor) AS SIGNED) AS bonusHonor,
+				CAST(SUM(${BattlegroundObjectivesSql}) AS SIGNED) AS objectives
+			FROM pvpstats_players
+			INNER JOIN pvpstats_battlegrounds ON pvpstats_battlegrounds.id = pvpstats_players.battleground_id
+			${bgTypeSql}
+			GROUP BY pvpstats_players.character_guid
+		`;
+
+		const db = this.armory.getCharactersDb(realm.name);
+		const charSet = await this.armory.getDatabaseCharset(realm.name);
+
+		let ssp = new DataTablesSsp(req.query, db, "characters", "guid", [
+			{ name: "name", collation: `${charSet}_general_ci` },
+			{ name: "class", formatter: (cls) => Utils.classNames[cls] },
+			{ name: "race", formatter: (race, row) => `${Utils.raceNames[race]}_${row[10] === 0 ? "male" : "female"}` },
+			{ table: "bg_stats", name: "games" },
+			{ table: "bg_stats", name: "wins" },
+			{ table: "bg_stats", name: "killingBlows" },
+			{ table: "bg_stats", name: "deaths" },
+			{ table: "bg_stats", name: "honorableKills" },
+			{ table: "bg_stats", name: "bonusHonor" },
+			{ table: "bg_stats", name: "objectives" },
+		]);
+		ssp.extraDataColumns = ["`characters`.`gender`"];
+		ssp.joins.push({
+			table1: "characters",
+			column1: "guid",
+			table2: "bg_stats",
+			column2: "character_guid",
+			kind: "INNER",
+			subquery: statsSql,
+		});
+
+		if (this.armory.config.hideGameMasters) {
+			ssp.joins.push({
+				table1: "characters",
+				column1: "account",
+				table2: "account_access",
+				column2: "id",
+				database2: realm.authDatabase,
+				kind: "LEFT",
+				where: `AND \`account_access\`.\`RealmID\` IN (-1, ${realm.realmId}) AND \`account_access\`.\`gmlevel\` > 0`,
+			});
+			ssp = ssp.where("`account_access`.`id` IS NULL");
+		}
+
+		const result = await ssp.where("`deleteInfos_Account` IS NULL").run(this.armory.config.dbQueryTimeout);
+
+		res.json({
+			...result,
+			realm: realm.name,
+		});
+	}
+
+	public async characterBattlegrounds(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realm = this.armory.getRealm(req.params.realm);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
+		const charData = await this.characters.getCharacterData(realm, req.params.name);
+		if (charData === null) {
+			// Could not find character
+			return next(404);
+		}
+
+		const db = this.armory.getCharactersDb(realm.name);
+		const ssp = new DataTablesSsp(req.query, db, "pvpstats_players", "battleground_id", [
+			{ table: "pvpstats_battlegrounds", name: "date" },
+			{ table: "pvpstats_battlegrounds", name: "type", formatter: (type) => BattlegroundNames[type] ?? `Battleground #${type}` },
+			{ name: "won", expression: "`pvpstats_players`.`winner` = 1" },
+			{ name: "score_killing_blows" },
+			{ name: "score_deaths" },
+			{ name: "score_honorable_kills" },
+			{ name: "score_bonus_honor" },
+			{ name: "score_damage_done" },
+			{ name: "score_healing_done" },
+			{ name: "objectives", expression: BattlegroundObjectivesSql },
+		]);
+		ssp.joins = [
+			{
+				table1: "pvpstats_players",
+				column1: "battleground_id",
+				table2: "pvpstats_battlegrounds",
+				column2: "id",
+				kind: "INNER",
+			},
+		];
+		const result = await ssp.where("`pvpstats_players`.`character_guid` = ?", charData.guid).run(this.armory.config.dbQueryTimeout);
+
+		res.json(result);
+	}
+}
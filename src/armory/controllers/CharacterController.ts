@@ -1,12 +1,28 @@
 import * as express from "express";
+import { Query } from "express-serve-static-core";
 import { RowDataPacket } from "mysql2/promise";
 
 import { Armory } from "../Armory";
 import { IRealmConfig } from "../Config";
 import { IEmblem, Utils } from "../Utils";
-import { IAchievement as IAchievementDbc } from "../data/DbcReader";
-
-interface ICharacterData {
+import { DataTablesSsp } from "../DataTablesSsp";
+import {
+	IAchievement as IAchievementDbc,
+	IAchievementCategory,
+	IAchievementCriteria,
+	ICreatureFamilyDbc,
+	IFactionDbc,
+	ISpellItemEnchantmentDbc,
+	ITalentTab,
+} from "../data/DbcReader";
+import { IItemStatsTemplate, IStatSheet, ItemStatsColumns, StatSheet } from "../data/StatSheet";
+import { GearScore } from "../data/GearScore";
+import { IReputation, IReputationRow, Reputation } from "../data/Reputation";
+import { ITalentSummary } from "../data/TalentSpecs";
+import { SpellText } from "../data/SpellText";
+import { BattlegroundNames, BattlegroundObjectivesSql } from "../data/Battlegrounds";
+
+export interface ICharacterData {
 	guid: number;
 	name: string;
 	race: number;
@@ -19,22 +35,59 @@ interface ICharacterData {
 	hairColor: number;
 	facialStyle: number;
 	playerFlags: number;
+	activeTalentGroup: number;
+	chosenTitle: number;
+	knownTitles: string;
 	online: number;
 	guild: string;
 }
 
-interface IEquipmentData {
+export interface IEquipmentData {
 	slot: number;
+	itemGuid: number;
 	itemEntry: number;
 	flags: number;
 	enchantments: string | number[];
 	randomPropertyId: number;
 	classId: number;
 	subclassId: number;
+	name: string;
 	quality: number;
+	itemLevel: number;
+	itemSet: number;
 	transmog?: number;
+	transmogName?: string;
 	icon?: number;
+	suffix?: string | null;
+	enchantmentNames?: string[];
 	gems?: number[];
+	gemEnchantments?: number[];
+	sockets?: ISocket[];
+	hasSocketBonus?: boolean;
+	socketBonusActive?: boolean;
+}
+
+export interface ISocket {
+	color: string;
+	gem: number | null;
+	gemColor: string | null;
+	enchantment: string | null;
+	matches: boolean;
+}
+
+export interface IItemInstance {
+	guid: number;
+	itemEntry: number;
+	owner: number;
+	flags: number;
+	enchantments: string | number[];
+	randomPropertyId: number;
+	durability: number;
+	creator: string | null;
+	suffix?: string | null;
+	enchantmentNames?: string[];
+	sockets?: ISocket[];
+	socketBonusActive?: boolean;
 }
 
 interface ICustomizationOption {
@@ -42,22 +95,83 @@ interface ICustomizationOption {
 	choiceId: number;
 }
 
-interface IMount {
+export interface IItemSetBonus {
+	threshold: number;
+	spell: number;
+	description: string;
+	active?: boolean;
+}
+
+export interface IItemSet {
+	id: number;
+	name: string;
+	equipped?: number;
+	total: number;
+	bonuses: IItemSetBonus[];
+}
+
+export interface IGearSummary {
+	averageItemLevel: number;
+	gearScore: number;
+}
+
+export interface IMount {
+	creatureDisplayId: number;
+	spell: number;
+	icon: string;
+}
+
+export interface ICompanion {
 	creatureDisplayId: number;
 	spell: number;
 	icon: string;
 }
 
-interface IAchievement {
+export interface IProfession {
+	id: number;
+	name: string;
+	icon: string;
+	value: number;
+	max: number;
+}
+
+export interface IProfessions {
+	primary: IProfession[];
+	secondary: IProfession[];
+}
+
+export interface IAchievementCriteriaProgress {
+	id: number;
+	description: string;
+	counter: number;
+	quantity: number;
+	completed: boolean;
+}
+
+export interface IAchievement {
 	id: number;
 	category: number;
 	title: string;
 	description: string;
 	points: number;
 	icon: string;
+	criteria?: IAchievementCriteriaProgress[];
+}
+
+export interface IStatistic {
+	id: number;
+	title: string;
+	value: string;
+}
+
+export interface IStatisticCategory {
+	id: number;
+	name: string;
+	statistics: IStatistic[];
+	categories: IStatisticCategory[];
 }
 
-interface IArenaTeam {
+export interface IArenaTeam {
 	id: number;
 	name: string;
 	type: number;
@@ -72,9 +186,60 @@ interface IArenaTeam {
 	emblem?: IEmblem;
 }
 
+export interface IBattlegroundStats {
+	name: string;
+	games: number;
+	wins: number;
+	killingBlows: number;
+	deaths: number;
+	honorableKills: number;
+	bonusHonor: number;
+	objectives: number;
+}
+
+export interface IPet {
+	id: number;
+	entry: number;
+	name: string;
+	level: number;
+	slot: number;
+	creatureDisplayId: number;
+	family: string | null;
+	icon: string | null;
+	petTalentMask: number;
+	talents: number[];
+}
+
 const ItemClassGem = 3;
+// Enchantments are stored as triplets (id, duration, charges) per enchantment slot
+const EnchantmentSlotSocket = 2;
+const EnchantmentSlotPrismatic = 6;
+const SocketColorPrismatic = 14;
+export const SocketColorNames = {
+	1: "meta",
+	2: "red",
+	4: "yellow",
+	6: "orange",
+	8: "blue",
+	10: "purple",
+	12: "green",
+	14: "prismatic",
+};
 const SpellMechanicMounted = 21;
-const RaceDisplayName = {
+const SpellEffectSummon = 28;
+// Companion pets, the summoned critters are learned in this skill line
+const SkillLineCompanions = 778;
+const AchievementFlagCounter = 0x01;
+const AchievementFlagSumm = 0x08;
+const AchievementCategoryStatistics = 1;
+const CriteriaTypeCompleteAchievement = 8;
+// Achievement criteria types counting copper
+const CriteriaTypesMoney = [60, 62, 63, 65, 66, 67, 80, 83, 85, 86];
+const ClassHunter = 3;
+const PetTypeHunter = 1;
+const SkillCategorySecondary = 9;
+const SkillCategoryProfession = 11;
+export const RaceDisplayName = {
 	1: "Human",
 	2: "Orc",
 	3: "Dwarf",
@@ -86,7 +251,7 @@ const RaceDisplayName = {
 	10: "Blood Elf",
 	11: "Draenei",
 };
-const ClassDisplayName = {
+export const ClassDisplayName = {
 	1: "Warrior",
 	2: "Paladin",
 	3: "Hunter",
@@ -105,10 +270,22 @@ export class CharacterController {
 	private itemIcons: { [key: number]: number };
 	private gemItems: { [key: number]: boolean };
 	private enchantSrcItems: { [key: number]: number };
+	private enchantmentById: { [key: number]: ISpellItemEnchantmentDbc };
+	private randomPropertyNames: { [key: number]: string };
+	private randomSuffixNames: { [key: number]: string };
 	private itemSocketBonuses: { [key: number]: number };
+	private itemSocketColors: { [key: number]: number[] };
+	private gemColorByEnchantId: { [key: number]: number };
+	private itemSetById: { [key: number]: IItemSet };
 	private mountSpells: number[];
 	private mountBySpellId: { [key: number]: IMount };
+	private companionSpells: number[];
+	private companionBySpellId: { [key: number]: ICompanion };
 	private achievementById: { [key: number]: IAchievementDbc };
+	private criteriaByAchievementId: { [key: number]: IAchievementCriteria[] };
+	private factionById: { [key: number]: IFactionDbc };
+	private creatureFamilyById: { [key: number]: ICreatureFamilyDbc };
+	private professionBySkillId: { [key: number]: { id: number; name: string; icon: string; secondary: boolean } };
 
 	public constructor(armory: Armory) {
 		this.armory = armory;
@@ -142,17 +319,75 @@ export class CharacterController {
 		}
 
 		this.enchantSrcItems = {};
+		this.enchantmentById = {};
 		for await (const row of this.armory.dbc.spellItemEnchantment()) {
 			this.enchantSrcItems[row.id] = row.srcItemId;
+			this.enchantmentById[row.id] = row;
+		}
+
+		this.randomPropertyNames = {};
+		for await (const row of this.armory.dbc.itemRandomProperties()) {
+			this.randomPropertyNames[row.id] = row.nameLang0;
+		}
+		this.randomSuffixNames = {};
+		for await (const row of this.armory.dbc.itemRandomSuffix()) {
+			this.randomSuffixNames[row.id] = row.nameLang0;
 		}
 
 		this.itemSocketBonuses = {};
+		this.itemSocketColors = {};
 		const [rows] = await this.armory.worldDb.query({
-			sql: "SELECT entry, socketBonus FROM item_template WHERE socketBonus <> 0",
+			sql: "SELECT entry, socketBonus, socketColor_1, socketColor_2, socketColor_3 FROM item_template WHERE socketBonus <> 0 OR socketColor_1 <> 0",
 			timeout: this.armory.config.dbQueryTimeout,
 		});
 		for (const row of rows as RowDataPacket[]) {
-			this.itemSocketBonuses[row.entry] = row.socketBonus;
+			if (row.socketBonus !== 0) {
+				this.itemSocketBonuses[row.entry] = row.socketBonus;
+			}
+			const colors = [row.socketColor_1, row.socketColor_2, row.socketColor_3].filter((color) => color !== 0);
+			if (colors.length !== 0) {
+				this.itemSocketColors[row.entry] = colors;
+			}
+		}
+
+		this.gemColorByEnchantId = {};
+		for await (const row of this.armory.dbc.gemProperties()) {
+			this.gemColorByEnchantId[row.enchantId] = row.type;
+		}
+
+		this.itemSetById = {};
+		const itemSets = await this.armory.dbc.itemSet().toArray();
+		const setSpellIds = new Set<number>();
+		for (const set of itemSets) {
+			for (let i = 0; i < 8; ++i) {
+				setSpellIds.add(set[`setSpellId${i}`]);
+			}
+		}
+		const setSpells = await this.armory.dbc
+			.spell()
+			.filter((spell) => setSpellIds.has(spell.id))
+			.toArray();
+		for (const set of itemSets) {
+			const bonuses: IItemSetBonus[] = [];
+			for (let i = 0; i < 8; ++i) {
+				const spell = setSpells.find((spell) => spell.id === set[`setSpellId${i}`]);
+				if (spell !== undefined) {
+					bonuses.push({
+						threshold: set[`setThreshold${i}`],
+						spell: spell.id,
+						description: await SpellText.formatDescription(this.armory.dbc, spell),
+					});
+				}
+			}
+			bonuses.sort((a, b) => a.threshold - b.threshold);
+
+			let total = 0;
+			for (let i = 0; i < 17; ++i) {
+				if (set[`itemId${i}`] !== 0) {
+					++total;
+				}
+			}
+			this.itemSetById[set.id] = { id: set.id, name: set.nameLang0, total, bonuses };
 		}
 
 		const mountSpells = await this.armory.dbc
@@ -170,16 +405,79 @@ export class CharacterController {
 					this.mountBySpellId[spell.id] = {
 						creatureDisplayId: display.creatureDisplayInfoId,
 						spell: spell.id,
-						icon: this.processSpellIconTexture(icon?.textureFilename ?? ""),
+						icon: Utils.processSpellIconTexture(icon?.textureFilename ?? ""),
 					};
 				}
 			}
 		}
 
+		const companionSkillSpells = await this.armory.dbc
+			.skillLineAbility()
+			.filter((ability) => ability.skillLine === SkillLineCompanions)
+			.map((ability) => ability.spell)
+			.toArray();
+		this.companionSpells = [];
+		this.companionBySpellId = {};
+		for await (const spell of this.armory.dbc.spell().filter((spell) => companionSkillSpells.includes(spell.id))) {
+			const effects = [
+				[spell.effect0, spell.effectMiscValue0],
+				[spell.effect1, spell.effectMiscValue1],
+				[spell.effect2, spell.effectMiscValue2],
+			];
+			// The misc value of the summon effect is the entry of the critter
+			const summon = effects.find(([effect]) => effect === SpellEffectSummon);
+			if (summon === undefined) {
+				continue;
+			}
+			const creature = await this.armory.dbc.creature().find((c) => c.id === summon[1]);
+			if (creature === undefined || creature.displayId0 === 0) {
+				continue;
+			}
+			const icon = await this.armory.dbc.spellIcon().find((icon) => icon.id === spell.spellIconId);
+			this.companionSpells.push(spell.id);
+			this.companionBySpellId[spell.id] = {
+				creatureDisplayId: creature.displayId0,
+				spell: spell.id,
+				icon: Utils.processSpellIconTexture(icon?.textureFilename ?? ""),
+			};
+		}
+
 		this.achievementById = {};
 		for await (const achievement of this.armory.dbc.achievement()) {
 			this.achievementById[achievement.id] = achievement;
 		}
+
+		this.criteriaByAchievementId = {};
+		for await (const criteria of this.armory.dbc.achievementCriteria()) {
+			if (!(criteria.achievementId in this.criteriaByAchievementId)) {
+				this.criteriaByAchievementId[criteria.achievementId] = [];
+			}
+			this.criteriaByAchievementId[criteria.achievementId].push(criteria);
+		}
+
+		this.factionById = {};
+		for await (const faction of this.armory.dbc.faction()) {
+			this.factionById[faction.id] = faction;
+		}
+
+		this.creatureFamilyById = {};
+		for await (const family of this.armory.dbc.creatureFamily()) {
+			this.creatureFamilyById[family.id] = family;
+		}
+
+		this.professionBySkillId = {};
+		const skillLines = this.armory.dbc
+			.skillLine()
+			.filter((skill) => skill.categoryId === SkillCategoryProfession || skill.categoryId === SkillCategorySecondary);
+		for await (const skill of skillLines) {
+			const icon = await this.armory.dbc.spellIcon().find((icon) => icon.id === skill.spellIconId);
+			this.professionBySkillId[skill.id] = {
+				id: skill.id,
+				name: skill.displayNameLang0,
+				icon: Utils.processSpellIconTexture(icon?.textureFilename ?? ""),
+				secondary: skill.categoryId === SkillCategorySecondary,
+			};
+		}
 	}
 
 	public async character(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
@@ -198,22 +496,24 @@ export class CharacterController {
 			return next(404);
 		}
 
-		const equipmentData = await this.getEquipmentData(realmName, charData.guid);
+		const equipment = await this.getEquipment(realmName, charData.guid);
 		const customization = this.getCustomizationOptions(charData);
-		const equipment = equipmentData.map((row) => {
-			row.icon = this.itemIcons[row.itemEntry];
-			row.gems = this.getGemsFromEnchantments(row.enchantments as string);
-			row.enchantments = this.filterEnchantments(row.itemEntry, row.enchantments as string);
-			return row;
-		});
 		const mounts = await this.getMounts(realmName, charData.guid);
+		const companions = await this.getCompanions(realmName, charData.guid);
+		const stats = await this.getStats(equipment);
 		const transmogs: number[][] = this.armory.config.transmogModule ? [] : undefined;
-		const characterModelItems = await this.getModelViewerItems(equipmentData, charData.class, transmogs);
+		const characterModelItems = await this.getModelViewerItems(equipment, charData.class, transmogs);
 
 		res.render("character.hbs", {
 			title: `Armory - ${charData.name}`,
-			...this.makeSharedDataObject(realm, charData),
-			contentPath: this.armory.config.useZamCdn ? "https://wow.zamimg.com/modelviewer/live/" : this.armory.config.websiteRoot + "/data/",
+			...(await this.makeSharedDataObject(realm, charData)),
+			contentPath: this.getModelViewerContentPath(),
+			stats,
+			itemSets: this.getItemSets(equipment),
+			titles: this.armory.titles.getKnownTitles(charData.knownTitles).map((title) => ({
+				id: title.id,
+				name: title.format.replace("%s", charData.name),
+			})),
 			data: {
 				race: charData.race,
 				gender: charData.gender,
@@ -224,6 +524,7 @@ export class CharacterController {
 				customizationOptions: customization,
 				equipment,
 				mounts,
+				companions,
 			},
 		});
 
@@ -246,13 +547,17 @@ export class CharacterController {
 			return next(404);
 		}
 
+		const glyphs = await this.getGlyphs(realm.name, charData.guid);
 		res.render("character-talents.hbs", {
 			title: `Armory - ${charData.name} - Talents`,
-			...this.makeSharedDataObject(realm, charData),
+			...(await this.makeSharedDataObject(realm, charData)),
 			data: {
+				activeTalentGroup: charData.activeTalentGroup,
+				classSlug: Utils.classNames[charData.class],
 				talents: await this.getTalents(realm.name, charData.guid),
 				trees: await this.getTalentTrees(charData.class),
-				glyphs: await this.getGlyphs(realm.name, charData.guid),
+				glyphs,
+				glyphNames: await this.getSpellNames([...glyphs[0], ...glyphs[1]]),
 			},
 		});
 	}
@@ -275,7 +580,7 @@ export class CharacterController {
 
 		res.render("character-achievements.hbs", {
 			title: `Armory - ${charData.name} - Achievements`,
-			...this.makeSharedDataObject(realm, charData),
+			...(await this.makeSharedDataObject(realm, charData)),
 		});
 	}
 
@@ -295,9 +600,14 @@ export class CharacterController {
 			return next(404);
 		}
 
+		const { achievements, earned } = await this.getAchievements(realm.name, charData);
+		const progress = await this.getCriteriaProgress(realm.name, charData.guid);
 		res.json({
 			categories: await this.armory.dbc.achievementCategory().toArray(),
-			...(await this.getAchievements(realm.name, charData)),
+			achievements: achievements.map((ach) =>
+				ach.id in earned ? ach : { ...ach, criteria: this.getAchievementCriteriaProgress(ach.id, progress, earned) },
+			),
+			earned,
 		});
 	}
 
@@ -320,31 +630,158 @@ export class CharacterController {
 		res.render("character-pvp.hbs", {
 			title: `Armory - ${charData.name} - PvP`,
 			realm: realm.name,
-			...this.makeSharedDataObject(realm, charData),
+			...(await this.makeSharedDataObject(realm, charData)),
 			faction: Utils.getFactionFromRaceId(charData.race),
 			kills: await this.getPvpKills(realm.name, charData.guid),
+			battlegrounds: await this.getBattlegroundStats(realm.name, charData.guid),
 			arenaTeams: await this.getArenaTeams(realm.name, charData.guid),
+			ratingHistory: this.armory.ratingHistory.getCharacterHistory(realm.name, charData.guid),
+		});
+	}
+
+	public async statistics(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realmName = req.params.realm;
+		const charName = req.params.name;
+
+		const realm = this.armory.getRealm(realmName);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
+		const charData = await this.getCharacterData(realm, charName);
+		if (charData === null) {
+			// Could not find character
+			return next(404);
+		}
+
+		res.render("character-statistics.hbs", {
+			title: `Armory - ${charData.name} - Statistics`,
+			...(await this.makeSharedDataObject(realm, charData)),
+			categories: await this.getStatistics(realm.name, charData),
+		});
+	}
+
+	public async professions(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realmName = req.params.realm;
+		const charName = req.params.name;
+
+		const realm = this.armory.getRealm(realmName);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
+		const charData = await this.getCharacterData(realm, charName);
+		if (charData === null) {
+			// Could not find character
+			return next(404);
+		}
+
+		res.render("character-professions.hbs", {
+			title: `Armory - ${charData.name} - Professions`,
+			...(await this.makeSharedDataObject(realm, charData)),
+			professions: await this.getProfessions(realm.name, charData.guid),
+		});
+	}
+
+	public async reputation(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realmName = req.params.realm;
+		const charName = req.params.name;
+
+		const realm = this.armory.getRealm(realmName);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
+		const charData = await this.getCharacterData(realm, charName);
+		if (charData === null) {
+			// Could not find character
+			return next(404);
+		}
+
+		res.render("character-reputation.hbs", {
+			title: `Armory - ${charData.name} - Reputation`,
+			...(await this.makeSharedDataObject(realm, charData)),
+			reputations: await this.getReputations(realm.name, charData),
 		});
 	}
 
-	private makeSharedDataObject(realm: IRealmConfig, charData: ICharacterData) {
+	public async pets(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realmName = req.params.realm;
+		const charName = req.params.name;
+
+		const realm = this.armory.getRealm(realmName);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
+		const charData = await this.getCharacterData(realm, charName);
+		if (charData === null) {
+			// Could not find character
+			return next(404);
+		}
+
+		if (charData.class !== ClassHunter) {
+			// Only hunters have tameable pets
+			return next(404);
+		}
+
+		res.render("character-pets.hbs", {
+			title: `Armory - ${charData.name} - Pets`,
+			...(await this.makeSharedDataObject(realm, charData)),
+			contentPath: this.getModelViewerContentPath(),
+			data: {
+				pets: await this.getPets(realm.name, charData.guid),
+				trees: await this.getPetTalentTrees(),
+			},
+		});
+	}
+
+	public async makeSharedDataObject(realm: IRealmConfig, charData: ICharacterData) {
+		const talentSummary = await this.getTalentSummary(realm.name, charData);
 		return {
 			realm: realm.name,
 			name: charData.name,
+			chosenTitle: this.armory.titles.getChosenTitle(charData.chosenTitle),
 			guid: charData.guid,
 			race: RaceDisplayName[charData.race],
 			class: ClassDisplayName[charData.class],
 			level: charData.level,
 			online: charData.online === 1,
 			guild: charData.guild,
+			...(await this.getGearSummary(realm.name, charData.guid)),
+			talentSpec: talentSummary.specs[talentSummary.activeGroup],
+		};
+	}
+
+	public async getGearSummary(realm: string, charGuid: number): Promise<IGearSummary> {
+		const worldDatabase = this.armory.config.worldDatabase.database;
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT
+					${GearScore.averageItemLevelSql("characters.guid", worldDatabase)} AS averageItemLevel,
+					${GearScore.gearScoreSql("characters.guid", "characters.class", worldDatabase)} AS gearScore
+				FROM characters
+				WHERE guid = ?
+			`,
+			values: [charGuid],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		return {
+			averageItemLevel: rows[0].averageItemLevel,
+			gearScore: rows[0].gearScore,
 		};
 	}
 
-	private async getCharacterData(realm: IRealmConfig, character: string | number): Promise<ICharacterData> {
+	public async getCharacterData(realm: IRealmConfig, character: string | number): Promise<ICharacterData> {
 		const where = typeof character === "string" ? "LOWER(`characters`.`name`) = LOWER(?)" : "`characters`.`guid` = ?";
 		const [rows] = await this.armory.getCharactersDb(realm.name).query({
 			sql: `
-				SELECT \`characters\`.\`guid\`, \`characters\`.\`name\`, \`race\`, \`class\`, \`gender\`, \`level\`, \`skin\`, \`face\`, \`hairStyle\`, \`hairColor\`, \`facialStyle\`, \`playerFlags\`, \`online\`, \`guild\`.\`name\` AS \`guild\`
+				SELECT \`characters\`.\`guid\`, \`characters\`.\`name\`, \`race\`, \`class\`, \`gender\`, \`level\`, \`skin\`, \`face\`, \`hairStyle\`, \`hairColor\`, \`facialStyle\`, \`playerFlags\`, \`activeTalentGroup\`, \`chosenTitle\`, \`knownTitles\`, \`online\`, \`guild\`.\`name\` AS \`guild\`
 				FROM \`characters\`
 				LEFT JOIN \`guild_member\` ON \`guild_member\`.\`guid\` = \`characters\`.\`guid\`
 				LEFT JOIN \`guild\` ON \`guild\`.\`guildid\` = \`guild_member\`.\`guildid\`
@@ -363,6 +800,105 @@ export class CharacterController {
 		return rows[0];
 	}
 
+	/**
+	 * Makes the DataTables query listing the characters of the requested realm with their guild, level, class, race and online status.
+	 * Game masters and deleted characters are excluded, the callers add the joins and conditions selecting the characters.
+	 * Returns null when the realm does not exist.
+	 */
+	public async makeCharacterListSsp(query: Query): Promise<{ realm: IRealmConfig; ssp: DataTablesSsp } | null> {
+		const realmName = query.realm as string;
+		const realm = realmName === undefined ? this.armory.config.realms[0] : this.armory.config.realms.find((r) => r.name === realmName);
+		if (realm === undefined) {
+			return null;
+		}
+
+		const db = this.armory.getCharactersDb(realm.name);
+		const charSet = await this.armory.getDatabaseCharset(realm.name);
+
+		let ssp = new DataTablesSsp(query, db, "characters", "guid", [
+			{ name: "name", collation: `${charSet}_general_ci` },
+			{ table: "guild", name: "name" },
+			{ name: "level" },
+			{ name: "class", formatter: (cls) => Utils.classNames[cls] },
+			{ name: "race", formatter: (race, row) => `${Utils.raceNames[race]}_${row[6] === 0 ? "male" : "female"}` },
+			{ name: "online", formatter: (online) => online === 1 },
+		]);
+		ssp.joins = [
+			{ table1: "characters", column1: "guid", table2: "guild_member", column2: "guid", kind: "LEFT" },
+			{ table1: "guild_member", column1: "guildid", table2: "guild", column2: "guildid", kind: "LEFT" },
+		];
+		ssp.extraDataColumns = ["`characters`.`gender`"];
+
+		if (this.armory.config.hideGameMasters) {
+			ssp.joins.push({
+				table1: "characters",
+				column1: "account",
+				table2: "account_access",
+				column2: "id",
+				database2: realm.authDatabase,
+				kind: "LEFT",
+				where: `AND \`account_access\`.\`RealmID\` IN (-1, ${realm.realmId}) AND \`account_access\`.\`gmlevel\` > 0`,
+			});
+			ssp = ssp.where("`account_access`.`id` IS NULL");
+		}
+
+		return { realm, ssp: ssp.where("`deleteInfos_Account` IS NULL") };
+	}
+
+	public async getEquipment(realm: string, charGuid: number): Promise<IEquipmentData[]> {
+		const equipmentData = await this.getEquipmentData(realm, charGuid);
+		return equipmentData.map((row) => {
+			row.icon = this.itemIcons[row.itemEntry];
+			row.gems = this.getGemsFromEnchantments(row.enchantments as string);
+			row.gemEnchantments = this.getGemEnchantments(row.enchantments as string);
+			row.sockets = this.getSockets(row.itemEntry, row.enchantments as string);
+			row.hasSocketBonus = this.itemSocketBonuses[row.itemEntry] !== undefined;
+			row.socketBonusActive = this.isSocketBonusActive(row.itemEntry, row.enchantments as string);
+			row.enchantments = this.filterEnchantments(row.itemEntry, row.enchantments as string);
+			row.enchantmentNames = row.enchantments.map((enchant) => this.enchantmentById[enchant]?.nameLang0 ?? "");
+			row.suffix = this.getRandomPropertyName(row.randomPropertyId);
+			if (row.suffix !== null) {
+				row.name = `${row.name} ${row.suffix}`;
+			}
+			return row;
+		});
+	}
+
+	public async getStats(equipment: IEquipmentData[]): Promise<IStatSheet> {
+		const sheet = new StatSheet();
+		if (equipment.length === 0) {
+			return sheet.toJSON();
+		}
+
+		const [rows] = await this.armory.worldDb.query({
+			sql: `SELECT entry, ${ItemStatsColumns.join(", ")} FROM item_template WHERE entry IN (?)`,
+			values: [equipment.map((item) => item.itemEntry)],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		const templates: { [key: number]: IItemStatsTemplate } = {};
+		for (const row of rows as RowDataPacket[]) {
+			templates[row.entry] = row as IItemStatsTemplate;
+		}
+
+		for (const item of equipment) {
+			if (item.itemEntry in templates) {
+				sheet.addItem(templates[item.itemEntry]);
+			}
+
+			const enchantments = [...(item.enchantments as number[]), ...item.gemEnchantments];
+			if (item.socketBonusActive) {
+				enchantments.push(this.itemSocketBonuses[item.itemEntry]);
+			}
+			for (const enchantment of enchantments) {
+				if (enchantment in this.enchantmentById) {
+					sheet.addEnchantment(this.enchantmentById[enchantment]);
+				}
+			}
+		}
+
+		return sheet.toJSON();
+	}
+
 	private async getEquipmentData(realm: string, charGuid: number): Promise<IEquipmentData[]> {
 		const transmogSelect = this.armory.config.transmogModule ? ", custom_transmogrification.FakeEntry AS transmog" : "";
 		const transmogJoin = this.armory.config.transmogModule
@@ -371,7 +907,7 @@ export class CharacterController {
 		let [rows] = await this.armory.getCharactersDb(realm).query({
 			sql: `
 				SELECT
-					character_inventory.slot, item_instance.itemEntry, item_instance.flags, item_instance.enchantments, item_instance.randomPropertyId
+					character_inventory.slot, item_instance.guid AS itemGuid, item_instance.itemEntry, item_instance.flags, item_instance.enchantments, item_instance.randomPropertyId
 					${transmogSelect}
 				FROM character_inventory
 				JOIN item_instance ON item_instance.guid = character_inventory.item
@@ -393,20 +929,83 @@ export class CharacterController {
 			row.subclassId = item.subclassId;
 		}
 
+		// Transmogrified appearances are named too, for the list of transmogrifications
+		const transmogs = data.map((row) => row.transmog).filter((transmog) => transmog !== undefined && transmog !== null);
 		[rows] = await this.armory.worldDb.query({
-			sql: "SELECT entry, quality FROM item_template WHERE entry IN (?)",
-			values: [data.map((row) => row.itemEntry)],
+			sql: "SELECT entry, name, quality, ItemLevel, itemset FROM item_template WHERE entry IN (?)",
+			values: [[...data.map((row) => row.itemEntry), ...transmogs]],
 			timeout: this.armory.config.dbQueryTimeout,
 		});
 		for (const row of rows as RowDataPacket[]) {
-			const item = data.find((item) => item.itemEntry === row.entry);
-			item.quality = row.quality;
+			// The same item can be equipped twice, e.g. rings and trinkets
+			for (const item of data.filter((item) => item.itemEntry === row.entry)) {
+				item.name = row.name;
+				item.quality = row.quality;
+				item.itemLevel = row.ItemLevel;
+				item.itemSet = row.itemset;
+			}
+			for (const item of data.filter((item) => item.transmog === row.entry)) {
+				item.transmogName = row.name;
+			}
 		}
 
 		return data;
 	}
 
-	private async getMounts(realm: string, charGuid: number): Promise<IMount[]> {
+	public getItemSets(equipment: IEquipmentData[]): IItemSet[] {
+		const equippedBySet: { [key: number]: number } = {};
+		for (const item of equipment) {
+			if (item.itemSet !== 0 && item.itemSet in this.itemSetById) {
+				equippedBySet[item.itemSet] = (equippedBySet[item.itemSet] ?? 0) + 1;
+			}
+		}
+
+		return Object.keys(equippedBySet).map((id) => this.getItemSet(parseInt(id, 10), equippedBySet[id]));
+	}
+
+	public getItemSet(id: number, equipped = 0): IItemSet | null {
+		const set = this.itemSetById[id];
+		if (set === undefined) {
+			return null;
+		}
+		return {
+			...set,
+			equipped,
+			bonuses: set.bonuses.map((bonus) => ({ ...bonus, active: equipped >= bonus.threshold })),
+		};
+	}
+
+	public async getItemInstance(realm: string, itemGuid: number): Promise<IItemInstance | null> {
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT
+					item_instance.guid, item_instance.itemEntry, item_instance.owner_guid AS owner, item_instance.flags, item_instance.enchantments,
+					item_instance.randomPropertyId, item_instance.durability, creator.name AS creator
+				FROM item_instance
+				LEFT JOIN characters creator ON creator.guid = item_instance.creatorGuid
+				WHERE item_instance.guid = ?
+			`,
+			values: [itemGuid],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		if ((rows as RowDataPacket[]).length === 0) {
+			return null;
+		}
+
+		const item = rows[0] as IItemInstance;
+		item.sockets = this.getSockets(item.itemEntry, item.enchantments as string);
+		item.socketBonusActive = this.isSocketBonusActive(item.itemEntry, item.enchantments as string);
+		item.enchantments = this.filterEnchantments(item.itemEntry, item.enchantments as string);
+		item.enchantmentNames = item.enchantments.map((enchant) => this.enchantmentById[enchant]?.nameLang0 ?? "");
+		item.suffix = this.getRandomPropertyName(item.randomPropertyId);
+		return item;
+	}
+
+	public getEnchantmentName(enchantment: number): string | null {
+		return this.enchantmentById[enchantment]?.nameLang0 ?? null;
+	}
+
+	public async getMounts(realm: string, charGuid: number): Promise<IMount[]> {
 		const [rows] = await this.armory.getCharactersDb(realm).query({
 			sql: `
 				SELECT spell
@@ -420,6 +1019,42 @@ export class CharacterController {
 		return (rows as RowDataPacket[]).map((row) => this.mountBySpellId[row.spell]).filter((m) => m !== undefined);
 	}
 
+	public async getCompanions(realm: string, charGuid: number): Promise<ICompanion[]> {
+		if (this.companionSpells.length === 0) {
+			return [];
+		}
+
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT spell
+				FROM character_spell
+				WHERE guid = ? AND spell IN (?)
+			`,
+			values: [charGuid, this.companionSpells],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		return (rows as RowDataPacket[]).map((row) => this.companionBySpellId[row.spell]).filter((c) => c !== undefined);
+	}
+
+	public getItemIcon(item: number): string | null {
+		const icon = this.itemIcons[item];
+		return icon !== undefined ? icon.toString().toLowerCase() : null;
+	}
+
+	// Returns the inventory type and the display ID of an item, in the format of the model viewer items
+	public async getItemAppearance(item: number): Promise<number[] | null> {
+		const modifiedAppearance = await this.armory.dbc.itemModifiedAppearance().find((row) => row.itemId === item);
+		if (modifiedAppearance === undefined) {
+			return null;
+		}
+		const appearance = await this.armory.dbc.itemAppearance().find((row) => row.id === modifiedAppearance.itemAppearanceId);
+		if (appearance === undefined) {
+			return null;
+		}
+		return [this.itemInventoryTypes[item], appearance.itemDisplayInfoId];
+	}
+
 	private async getModelViewerItems(equipmentData: IEquipmentData[], charClass: number, transmogOut?: number[][]): Promise<number[][]> {
 		if (charClass !== 3) {
 			// Keep ranged weapon only if the character is a hunter
@@ -476,10 +1111,50 @@ export class CharacterController {
 			.filter((enchant) => enchant !== 0);
 	}
 
+	private getGemEnchantments(enchantments: string): number[] {
+		return this.parseEnchantmentsString(enchantments).filter(
+			(enchant) => enchant in this.enchantSrcItems && this.enchantSrcItems[enchant] in this.gemItems,
+		);
+	}
+
 	private getGemsFromEnchantments(enchantments: string): number[] {
-		return this.parseEnchantmentsString(enchantments)
-			.filter((enchant) => enchant in this.enchantSrcItems && this.enchantSrcItems[enchant] in this.gemItems)
-			.map((enchant) => this.enchantSrcItems[enchant]);
+		return this.getGemEnchantments(enchantments).map((enchant) => this.enchantSrcItems[enchant]);
+	}
+
+	private getRandomPropertyName(randomPropertyId: number): string | null {
+		// Negative IDs are random suffixes, which scale with the item level, positive IDs are fixed random properties
+		const name = randomPropertyId < 0 ? this.randomSuffixNames[-randomPropertyId] : this.randomPropertyNames[randomPropertyId];
+		return name !== undefined && name !== "" ? name : null;
+	}
+
+	private getSockets(item: number, enchantments: string): ISocket[] {
+		const values = enchantments
+			.trim()
+			.split(" ")
+			.map((value) => parseInt(value, 10));
+		const colors = [...(this.itemSocketColors[item] ?? [])];
+		if ((values[EnchantmentSlotPrismatic * 3] ?? 0) !== 0 && colors.length < 3) {
+			// Belt buckles and blacksmithing add a prismatic socket after the sockets of the item
+			colors.push(SocketColorPrismatic);
+		}
+
+		return colors.map((color, idx) => {
+			const enchant = values[(EnchantmentSlotSocket + idx) * 3] ?? 0;
+			const gemColor = this.gemColorByEnchantId[enchant];
+			return {
+				color: SocketColorNames[color],
+				gem: enchant !== 0 ? this.enchantSrcItems[enchant] ?? null : null,
+				gemColor: gemColor !== undefined ? SocketColorNames[gemColor] ?? null : null,
+				enchantment: enchant !== 0 ? this.enchantmentById[enchant]?.nameLang0 ?? null : null,
+				matches: gemColor !== undefined && (gemColor & color) !== 0,
+			};
+		});
+	}
+
+	private isSocketBonusActive(item: number, enchantments: string): boolean {
+		// The server only writes the socket bonus enchantment on the item while it is active
+		const socketBonus = this.itemSocketBonuses[item];
+		return socketBonus !== undefined && this.parseEnchantmentsString(enchantments).includes(socketBonus);
 	}
 
 	private filterEnchantments(item: number, enchantments: string): number[] {
@@ -944,7 +1619,7 @@ export class CharacterController {
 		return options;
 	}
 
-	private async getTalents(realm: string, character: number): Promise<number[][]> {
+	public async getTalents(realm: string, character: number): Promise<number[][]> {
 		const [rows] = await this.armory.getCharactersDb(realm).query({
 			sql: `
 				SELECT spell, specMask
@@ -968,10 +1643,27 @@ export class CharacterController {
 		return talents;
 	}
 
-	private async getTalentTrees(classId: number) {
+	public async getTalentSummary(realm: string, charData: ICharacterData): Promise<ITalentSummary> {
+		const talents = await this.getTalents(realm, charData.guid);
+		return {
+			activeGroup: charData.activeTalentGroup,
+			specs: talents.map((spells) => this.armory.talentSpecs.getSpec(charData.class, spells)),
+		};
+	}
+
+	public async getTalentTrees(classId: number) {
+		return await this.makeTalentTrees((tab) => tab.classMask === Math.pow(2, classId - 1));
+	}
+
+	public async getPetTalentTrees() {
+		// Pet talent trees have no class, the family of a pet selects its tree with CreatureFamily.petTalentType
+		return await this.makeTalentTrees((tab) => tab.classMask === 0 && tab.categoryEnumId !== 0);
+	}
+
+	private async makeTalentTrees(filter: (tab: ITalentTab) => boolean) {
 		const items = await this.armory.dbc
 			.talentTab()
-			.filter((tab) => tab.classMask === Math.pow(2, classId - 1))
+			.filter(filter)
 			.map(async (tab) => {
 				const icon = await this.armory.dbc.spellIcon().find((icon) => icon.id === tab.spellIconId);
 				const spells = await this.armory.dbc
@@ -980,12 +1672,13 @@ export class CharacterController {
 					.map(async (row) => {
 						const spell = await this.armory.dbc.spell().find((spell) => spell.id === row.spellRank0);
 						const icon = await this.armory.dbc.spellIcon().find((icon) => icon.id === spell?.spellIconId);
-						return { ...row, icon: this.processSpellIconTexture(icon?.textureFilename ?? "") };
+						return { ...row, icon: Utils.processSpellIconTexture(icon?.textureFilename ?? "") };
 					})
 					.toArray();
 				return {
 					name: tab.nameLang0,
-					icon: this.processSpellIconTexture(icon.textureFilename),
+					icon: Utils.processSpellIconTexture(icon.textureFilename),
+					petTalentMask: tab.categoryEnumId,
 					spells: await Promise.all(spells),
 				};
 			})
@@ -993,11 +1686,7 @@ export class CharacterController {
 		return await Promise.all(items);
 	}
 
-	private processSpellIconTexture(texturePath: string): string {
-		return texturePath.toLowerCase().replace("interface\\icons\\", "").replace("interface\\spellbook\\", "").replace(/\.$/, "");
-	}
-
-	private async getGlyphs(realm: string, character: number): Promise<number[][]> {
+	public async getGlyphs(realm: string, character: number): Promise<number[][]> {
 		const [rows] = await this.armory.getCharactersDb(realm).query({
 			sql: `
 				SELECT guid, talentGroup, glyph1, glyph2, glyph3, glyph4, glyph5, glyph6
@@ -1023,7 +1712,15 @@ export class CharacterController {
 		return glyphs;
 	}
 
-	private async getAchievements(
+	public async getSpellNames(spells: number[]): Promise<{ [key: number]: string }> {
+		const names: { [key: number]: string } = {};
+		for await (const spell of this.armory.dbc.spell().filter((spell) => spells.includes(spell.id))) {
+			names[spell.id] = spell.nameLang0;
+		}
+		return names;
+	}
+
+	public async getAchievements(
 		realm: string,
 		charData: ICharacterData,
 	): Promise<{ achievements: IAchievement[]; earned: { [key: number]: number } }> {
@@ -1038,7 +1735,7 @@ export class CharacterController {
 					title: ach.titleLang0,
 					description: ach.descriptionLang0,
 					points: ach.points,
-					icon: this.processSpellIconTexture(icon?.textureFilename ?? ""),
+					icon: Utils.processSpellIconTexture(icon?.textureFilename ?? ""),
 				};
 			})
 			.toArray();
@@ -1064,6 +1761,126 @@ export class CharacterController {
 		};
 	}
 
+	public async getProfessions(realm: string, charGuid: number): Promise<IProfessions> {
+		const skillIds = Object.keys(this.professionBySkillId);
+		if (skillIds.length === 0) {
+			return { primary: [], secondary: [] };
+		}
+
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT skill, value, max
+				FROM character_skills
+				WHERE guid = ? AND skill IN (?)
+			`,
+			values: [charGuid, skillIds],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		const professions: IProfessions = { primary: [], secondary: [] };
+		for (const row of rows as RowDataPacket[]) {
+			const { secondary, ...profession } = this.professionBySkillId[row.skill];
+			(secondary ? professions.secondary : professions.primary).push({ ...profession, value: row.value, max: row.max });
+		}
+		professions.primary.sort((a, b) => b.value - a.value);
+		professions.secondary.sort((a, b) => a.name.localeCompare(b.name));
+
+		return professions;
+	}
+
+	public async getReputations(realm: string, charData: ICharacterData): Promise<IReputation[]> {
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT faction, standing, flags
+				FROM character_reputation
+				WHERE guid = ?
+			`,
+			values: [charData.guid],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		return Reputation.build(rows as IReputationRow[], this.factionById, charData.race, charData.class);
+	}
+
+	private async getCriteriaProgress(realm: string, charGuid: number): Promise<{ [key: number]: number }> {
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT criteria, counter
+				FROM character_achievement_progress
+				WHERE guid = ?
+			`,
+			values: [charGuid],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		const progress: { [key: number]: number } = {};
+		for (const row of rows as RowDataPacket[]) {
+			progress[row.criteria] = row.counter;
+		}
+		return progress;
+	}
+
+	private getAchievementCriteriaProgress(
+		achievement: number,
+		progress: { [key: number]: number },
+		earned: { [key: number]: number },
+	): IAchievementCriteriaProgress[] {
+		return (this.criteriaByAchievementId[achievement] ?? []).map((criteria) => {
+			const quantity = Math.max(criteria.quantity, 1);
+			const counter = progress[criteria.id] ?? 0;
+			if (criteria.type === CriteriaTypeCompleteAchievement) {
+				// Meta achievements, the criteria is completed when the required achievement is earned
+				const required = this.achievementById[criteria.assetId];
+				return {
+					id: criteria.id,
+					description: criteria.descriptionLang0 || (required?.titleLang0 ?? ""),
+					counter: criteria.assetId in earned ? 1 : 0,
+					quantity: 1,
+					completed: criteria.assetId in earned,
+				};
+			}
+			return {
+				id: criteria.id,
+				description: criteria.descriptionLang0,
+				counter: Math.min(counter, quantity),
+				quantity,
+				completed: counter >= quantity,
+			};
+		});
+	}
+
+	public async getStatistics(realm: string, charData: ICharacterData): Promise<IStatisticCategory[]> {
+		const progress = await this.getCriteriaProgress(realm, charData.guid);
+		const makeCategory = (category: IAchievementCategory, categories: IAchievementCategory[]): IStatisticCategory => {
+			const statistics = Object.values(this.achievementById)
+				.filter((ach) => ach.category === category.id && (ach.flags & AchievementFlagCounter) !== 0)
+				.filter((ach) => ach.faction === -1 || ach.faction === Utils.getFactionFromRaceId(charData.race))
+				.map((ach): IStatistic => {
+					const criteria = this.criteriaByAchievementId[ach.id] ?? [];
+					const counters = criteria.map((c) => progress[c.id] ?? 0);
+					const value =
+						(ach.flags & AchievementFlagSumm) !== 0 ? counters.reduce((sum, counter) => sum + counter, 0) : Math.max(0, ...counters);
+					const isMoney = criteria.some((c) => CriteriaTypesMoney.includes(c.type));
+					return {
+						id: ach.id,
+						title: ach.titleLang0,
+						// The game client shows -- for statistics that have no progress
+						value: value === 0 ? "--" : isMoney ? Utils.formatMoney(value) : value.toString(),
+					};
+				});
+
+			return {
+				id: category.id,
+				name: category.nameLang0,
+				statistics,
+				categories: categories.filter((cat) => cat.parent === category.id).map((cat) => makeCategory(cat, categories)),
+			};
+		};
+
+		const categories = await this.armory.dbc.achievementCategory().toArray();
+		return categories.filter((cat) => cat.parent === AchievementCategoryStatistics).map((cat) => makeCategory(cat, categories));
+	}
+
 	private async getPvpKills(realm: string, charGuid: number): Promise<{ total: number; today: number; yesterday: number }> {
 		const [rows] = await this.armory.getCharactersDb(realm).query({
 			sql: `
@@ -1083,7 +1900,51 @@ export class CharacterController {
 		};
 	}
 
-	private async getArenaTeams(realm: string, charGuid: number): Promise<IArenaTeam[]> {
+	private async getBattlegroundStats(realm: string, charGuid: number): Promise<IBattlegroundStats[]> {
+		const [rows] = await this.armory.getCharactersDb(realm).query({
+			sql: `
+				SELECT
+					pvpstats_battlegrounds.type,
+					COUNT(*) AS games,
+					CAST(SUM(pvpstats_players.winner = 1) AS SIGNED) AS wins,
+					CAST(SUM(score_killing_blows) AS SIGNED) AS killingBlows,
+					CAST(SUM(score_deaths) AS SIGNED) AS deaths,
+					CAST(SUM(score_honorable_kills) AS SIGNED) AS honorableKills,
+					CAST(SUM(score_bonus_honor) AS SIGNED) AS bonusHonor,
+					CAST(SUM(${BattlegroundObjectivesSql}) AS SIGNED) AS objectives
+				FROM pvpstats_players
+				INNER JOIN pvpstats_battlegrounds ON pvpstats_battlegrounds.id = pvpstats_players.battleground_id
+				WHERE pvpstats_players.character_guid = ?
+				GROUP BY pvpstats_battlegrounds.type
+				ORDER BY games DESC
+			`,
+			values: [charGuid],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		const battlegrounds: IBattlegroundStats[] = (rows as RowDataPacket[]).map((row) => {
+			return {
+				name: BattlegroundNames[row.type] ?? `Battleground #${row.type}`,
+				games: row.games,
+				wins: row.wins,
+				killingBlows: row.killingBlows,
+				deaths: row.deaths,
+				honorableKills: row.honorableKills,
+				bonusHonor: row.bonusHonor,
+				objectives: row.objectives,
+			};
+		});
+		if (battlegrounds.length > 1) {
+			const total: IBattlegroundStats = { ...battlegrounds[0], name: "Total" };
+			for (const key of Object.keys(total).filter((key) => key !== "name")) {
+				total[key] = battlegrounds.reduce((sum, bg) => sum + bg[key], 0);
+			}
+			battlegrounds.push(total);
+		}
+		return battlegrounds;
+	}
+
+	public async getArenaTeams(realm: string, charGuid: number): Promise<IArenaTeam[]> {
 		const [rows] = await this.armory.getCharactersDb(realm).query({
 			sql: `
 				SELECT
@@ -1103,4 +1964,60 @@ export class CharacterController {
 			return row;
 		});
 	}
+
+	public async getPets(realm: string, charGuid: number): Promise<IPet[]> {
+		const db = this.armory.getCharactersDb(realm);
+		const [rows] = await db.query({
+			sql: `
+				SELECT id, entry, modelid AS creatureDisplayId, level, name, slot
+				FROM character_pet
+				WHERE owner = ? AND PetType = ?
+				ORDER BY slot ASC
+			`,
+			values: [charGuid, PetTypeHunter],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		const pets = rows as RowDataPacket[];
+		if (pets.length === 0) {
+			return [];
+		}
+
+		const [creatures] = await this.armory.worldDb.query({
+			sql: "SELECT entry, name, family FROM creature_template WHERE entry IN (?)",
+			values: [pets.map((pet) => pet.entry)],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		const creatureByEntry: { [key: number]: RowDataPacket } = {};
+		for (const creature of creatures as RowDataPacket[]) {
+			creatureByEntry[creature.entry] = creature;
+		}
+
+		// Pet talents are stored with the other spells of the pet
+		const [spells] = await db.query({
+			sql: "SELECT guid, spell FROM pet_spell WHERE guid IN (?)",
+			values: [pets.map((pet) => pet.id)],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+
+		return pets.map((pet) => {
+			const creature = creatureByEntry[pet.entry];
+			const family = this.creatureFamilyById[creature?.family];
+			return {
+				id: pet.id,
+				entry: pet.entry,
+				name: pet.name !== "" ? pet.name : creature?.name ?? "",
+				level: pet.level,
+				slot: pet.slot,
+				creatureDisplayId: pet.creatureDisplayId,
+				family: family?.nameLang0 ?? null,
+				icon: family !== undefined ? Utils.processSpellIconTexture(family.iconFile) : null,
+				petTalentMask: family !== undefined ? 1 << family.petTalentType : 0,
+				talents: (spells as RowDataPacket[]).filter((row) => row.guid === pet.id).map((row) => row.spell),
+			};
+		});
+	}
+
+	public getModelViewerContentPath(): string {
+		return this.armory.config.useZamCdn ? "https://wow.zamimg.com/modelviewer/live/" : this.armory.config.websiteRoot + "/data/";
+	}
 }
@@ -0,0 +1,159 @@
+import * as express from "express";
+
+import { Armory } from "../Armory";
+import { CharacterController, IAchievement, ICharacterData, IEquipmentData } from "./CharacterController";
+
+interface ICompareItem {
+	entry: number;
+	itemGuid: number;
+	quality: number;
+	icon: string | null;
+	itemLevel: number;
+	delta: number;
+}
+
+interface ICompareRow<T> {
+	name: string;
+	cells: T[];
+}
+
+interface IUniqueAchievements {
+	count: number;
+	achievements: { id: number; title: string }[];
+}
+
+const MaxComparedCharacters = 4;
+const ArenaTypes = [2, 3, 5];
+// Inventory slots in the order of the character page, without the shirt and the tabard
+const ComparedSlots = [
+	{ slot: 0, name: "Head" },
+	{ slot: 1, name: "Neck" },
+	{ slot: 2, name: "Shoulder" },
+	{ slot: 14, name: "Back" },
+	{ slot: 4, name: "Chest" },
+	{ slot: 8, name: "Wrist" },
+	{ slot: 9, name: "Hands" },
+	{ slot: 5, name: "Waist" },
+	{ slot: 6, name: "Legs" },
+	{ slot: 7, name: "Feet" },
+	{ slot: 10, name: "Finger" },
+	{ slot: 11, name: "Finger" },
+	{ slot: 12, name: "Trinket" },
+	{ slot: 13, name: "Trinket" },
+	{ slot: 15, name: "Main Hand" },
+	{ slot: 16, name: "Off Hand" },
+	{ slot: 17, name: "Ranged" },
+];
+
+export class CompareController {
+	private armory: Armory;
+	private characters: CharacterController;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async compare(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const realm = this.armory.getRealm(req.params.realm);
+		if (realm === undefined) {
+			// Could not find realm
+			return next(404);
+		}
+
+		const names = req.params.names.split("/").filter((name) => name !== "");
+		if (names.length < 2 || names.length > MaxComparedCharacters) {
+			return next(400);
+		}
+
+		const chars: ICharacterData[] = [];
+		for (const name of names) {
+			const charData = await this.characters.getCharacterData(realm, name);
+			if (charData === null) {
+				// Could not find character
+				return next(404);
+			}
+			chars.push(charData);
+		}
+
+		const equipment: IEquipmentData[][] = [];
+		const talents: number[][][] = [];
+		const earned: { [key: number]: number }[] = [];
+		const arenaRatings: number[][] = [];
+		const profiles = [];
+		const achievementById: { [key: number]: IAchievement } = {};
+		for (const charData of chars) {
+			profiles.push(await this.characters.makeSharedDataObject(realm, charData));
+			equipment.push(await this.characters.getEquipment(realm.name, charData.guid));
+
+			const talentSummary = await this.characters.getTalentSummary(realm.name, charData);
+			talents.push(talentSummary.specs.map((spec) => spec.points));
+
+			const charAchievements = await this.characters.getAchievements(realm.name, charData);
+			for (const ach of charAchievements.achievements) {
+				achievementById[ach.id] = ach;
+			}
+			earned.push(charAchievements.earned);
+
+			const teams = await this.characters.getArenaTeams(realm.name, charData.guid);
+			arenaRatings.push(ArenaTypes.map((type) => teams.find((team) => team.type === type)?.rating ?? null));
+		}
+
+		// Achievements are faction-specific, compare all of the achievements available to any of the characters
+		const achievements = Object.values(achievementById);
+		res.render("compare.hbs", {
+			title: `Armory - Compare ${chars.map((charData) => charData.name).join(", ")}`,
+			realm: realm.name,
+			characters: profiles,
+			equipment: this.makeEquipmentRows(equipment),
+			talents: ["Primary", "Secondary"].map(
+				(name, group): ICompareRow<string> => ({
+					name,
+					cells: talents.map((groups) => groups[group].join(" / ")),
+				}),
+			),
+			achievements: {
+				points: earned.map((charEarned) =>
+					achievements.filter((ach) => ach.id in charEarned).reduce((points, ach) => points + ach.points, 0),
+				),
+				unique: earned.map((charEarned, idx): IUniqueAchievements => {
+					const others = earned.filter((_, otherIdx) => otherIdx !== idx);
+					const unique = achievements
+						.filter((ach) => ach.id in charEarned && others.some((otherEarned) => !(ach.id in otherEarned)))
+						.map((ach) => ({ id: ach.id, title: ach.title }));
+					return { count: unique.length, achievements: unique };
+				}),
+			},
+			arena: ArenaTypes.map(
+				(type, idx): ICompareRow<number> => ({
+					name: `${type}v${type}`,
+					cells: arenaRatings.map((ratings) => ratings[idx]),
+				}),
+			),
+		});
+	}
+
+	private makeEquipmentRows(equipment: IEquipmentData[][]): ICompareRow<ICompareItem>[] {
+		return ComparedSlots.map(({ slot, name }) => {
+			const items = equipment.map((charEquipment) => charEquipment.find((item) => item.slot === slot));
+			// Item level deltas are relative to the first character
+			const reference = items[0]?.itemLevel ?? 0;
+			return {
+				name,
+				cells: items.map((item, idx) => {
+					if (item === undefined) {
+						return null;
+					}
+					return {
+						entry: item.itemEntry,
+						itemGuid: item.itemGuid,
+						quality: item.quality,
+						icon: item.icon !== undefined ? item.icon.toString().toLowerCase() : null,
+						itemLevel: item.itemLevel,
+						delta: idx === 0 ? 0 : item.itemLevel - reference,
+					};
+				}),
+			};
+		});
+	}
+}
@@ -0,0 +1,142 @@
+import * as express from "express";
+import { RowDataPacket } from "mysql2/promise";
+
+import { Armory } from "../Armory";
+import { CharacterController } from "./CharacterController";
+
+interface IRecipe {
+	spell: number;
+	name: string;
+	profession: string;
+	item: number;
+	itemName?: string;
+}
+
+const SpellEffectCreateItem = 24;
+const SpellEffectCreateItem2 = 157;
+const SkillCategorySecondary = 9;
+const SkillCategoryProfession = 11;
+
+export class CraftersController {
+	private armory: Armory;
+	private characters: CharacterController;
+	private recipes: IRecipe[];
+	private recipeBySpellId: { [key: number]: IRecipe };
+	private itemNamesLoaded = false;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async load(): Promise<void> {
+		const professionNames: { [key: number]: string } = {};
+		const skillLines = this.armory.dbc
+			.skillLine()
+			.filter((skill) => skill.categoryId === SkillCategoryProfession || skill.categoryId === SkillCategorySecondary);
+		for await (const skill of skillLines) {
+			professionNames[skill.id] = skill.displayNameLang0;
+		}
+
+		const professionBySpellId: { [key: number]: string } = {};
+		for await (const ability of this.armory.dbc.skillLineAbility().filter((ability) => ability.skillLine in professionNames)) {
+			professionBySpellId[ability.spell] = professionNames[ability.skillLine];
+		}
+
+		this.recipes = [];
+		this.recipeBySpellId = {};
+		for await (const spell of this.armory.dbc.spell().filter((spell) => spell.id in professionBySpellId)) {
+			const effects = [
+				[spell.effect0, spell.effectItemType0],
+				[spell.effect1, spell.effectItemType1],
+				[spell.effect2, spell.effectItemType2],
+			];
+			const createItem = effects.find(
+				([effect, item]) => (effect === SpellEffectCreateItem || effect === SpellEffectCreateItem2) && item !== 0,
+			);
+			if (createItem === undefined) {
+				continue;
+			}
+
+			const recipe: IRecipe = {
+				spell: spell.id,
+				name: spell.nameLang0,
+				profession: professionBySpellId[spell.id],
+				item: createItem[1],
+			};
+			this.recipes.push(recipe);
+			this.recipeBySpellId[spell.id] = recipe;
+		}
+		this.recipes.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	public async index(req: express.Request, res: express.Response): Promise<void> {
+		res.render("crafters.hbs", {
+			title: "Armory - Crafters",
+		});
+	}
+
+	public async recipesData(req: express.Request, res: express.Response): Promise<void> {
+		await this.loadItemNames();
+		res.json({
+			data: this.recipes,
+		});
+	}
+
+	public async recipe(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const recipe = this.recipeBySpellId[parseInt(req.params.spell, 10)];
+		if (recipe === undefined) {
+			// Could not find recipe
+			return next(404);
+		}
+
+		await this.loadItemNames();
+		res.render("crafters-recipe.hbs", {
+			title: `Armory - Crafters - ${recipe.name}`,
+			realms: this.armory.config.realms.map((r) => r.name),
+			recipe,
+		});
+	}
+
+	public async search(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const recipe = this.recipeBySpellId[parseInt(req.params.spell, 10)];
+		if (recipe === undefined) {
+			// Could not find recipe
+			return next(404);
+		}
+
+		const list = await this.characters.makeCharacterListSsp(req.query);
+		if (list === null) {
+			return next(400);
+		}
+
+		list.ssp.joins.push({ table1: "characters", column1: "guid", table2: "character_spell", column2: "guid", kind: "INNER" });
+		const result = await list.ssp.where("`character_spell`.`spell` = ?", recipe.spell).run(this.armory.config.dbQueryTimeout);
+
+		res.json({
+			...result,
+			realm: list.realm.name,
+		});
+	}
+
+	// The names of the created items come from the world database, which is only queried once the first time they are needed
+	private async loadItemNames(): Promise<void> {
+		if (this.itemNamesLoaded || this.recipes.length === 0) {
+			return;
+		}
+
+		const [rows] = await this.armory.worldDb.query({
+			sql: "SELECT entry, name FROM item_template WHERE entry IN (?)",
+			values: [Array.from(new Set(this.recipes.map((recipe) => recipe.item)))],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		const names: { [key: number]: string } = {};
+		for (const row of rows as RowDataPacket[]) {
+			names[row.entry] = row.name;
+		}
+		for (const recipe of this.recipes) {
+			recipe.itemName = names[recipe.item] ?? `Item #${recipe.item}`;
+		}
+		this.itemNamesLoaded = true;
+	}
+}
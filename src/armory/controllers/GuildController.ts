@@ -5,6 +5,8 @@ import { RowDataPacket } from "mysql2/promise";
 import { Armory } from "../Armory";
 import { IRealmConfig } from "../Config";
 import { DataTablesSsp } from "../DataTablesSsp";
+import { GearScore } from "../data/GearScore";
+import { TalentSpecs } from "../data/TalentSpecs";
 import { Utils, IEmblem, EFaction } from "../Utils";
 
 interface IGuildRank {
@@ -69,16 +71,24 @@ export class GuildController {
 		const db = this.armory.getCharactersDb(realm.name);
 		const charSet = await this.armory.getDatabaseCharset(realm.name);
 
+		const worldDatabase = this.armory.config.worldDatabase.database;
 		let ssp = new DataTablesSsp(req.query, db, "guild_member", "guid", [
 			{ name: "name", table: "characters", collation: `${charSet}_general_ci` },
 			{ name: "rank" },
 			{ name: "level", table: "characters" },
+			{ name: "averageItemLevel", expression: GearScore.averageItemLevelSql("`characters`.`guid`", worldDatabase) },
+			{ name: "gearScore", expression: GearScore.gearScoreSql("`characters`.`guid`", "`characters`.`class`", worldDatabase) },
 			{ name: "class", table: "characters", formatter: (cls) => Utils.classNames[cls] },
-			{ name: "race", table: "characters", formatter: (race, row) => `${Utils.raceNames[race]}_${row[6] === 0 ? "male" : "female"}` },
+			{
+				name: "talents",
+				expression: TalentSpecs.activeTalentsSql("`characters`.`guid`", "`characters`.`activeTalentGroup`"),
+				formatter: (talents, row) => this.armory.talentSpecs.formatSpec(row[10], talents as string),
+			},
+			{ name: "race", table: "characters", formatter: (race, row) => `${Utils.raceNames[race]}_${row[9] === 0 ? "male" : "female"}` },
 			{ name: "online", table: "characters", formatter: (online) => online === 1 },
 		]);
 		ssp.joins = [{ table1: "guild_member", column1: "guid", table2: "characters", column2: "guid", kind: "LEFT" }];
-		ssp.extraDataColumns = ["`characters`.`gender`"];
+		ssp.extraDataColumns = ["`characters`.`gender`", "`characters`.`class`"];
 
 		if (this.armory.config.hideGameMasters) {
 			ssp.joins.push({
@@ -3,6 +3,8 @@ import * as express from "express";
 import { Utils } from "../Utils";
 import { Armory } from "../Armory";
 import { DataTablesSsp } from "../DataTablesSsp";
+import { GearScore } from "../data/GearScore";
+import { TalentSpecs } from "../data/TalentSpecs";
 
 export class IndexController {
 	private armory: Armory;
@@ -28,19 +30,27 @@ export class IndexController {
 		const db = this.armory.getCharactersDb(realm.name);
 		const charSet = await this.armory.getDatabaseCharset(realm.name);
 
+		const worldDatabase = this.armory.config.worldDatabase.database;
 		let ssp = new DataTablesSsp(req.query, db, "characters", "guid", [
 			{ name: "name", collation: `${charSet}_general_ci` },
 			{ table: "guild", name: "name" },
 			{ name: "level" },
+			{ name: "averageItemLevel", expression: GearScore.averageItemLevelSql("`characters`.`guid`", worldDatabase) },
+			{ name: "gearScore", expression: GearScore.gearScoreSql("`characters`.`guid`", "`characters`.`class`", worldDatabase) },
 			{ name: "class", formatter: (cls) => Utils.classNames[cls] },
-			{ name: "race", formatter: (race, row) => `${Utils.raceNames[race]}_${row[6] === 0 ? "male" : "female"}` },
+			{
+				name: "talents",
+				expression: TalentSpecs.activeTalentsSql("`characters`.`guid`", "`characters`.`activeTalentGroup`"),
+				formatter: (talents, row) => this.armory.talentSpecs.formatSpec(row[10], talents as string),
+			},
+			{ name: "race", formatter: (race, row) => `${Utils.raceNames[race]}_${row[9] === 0 ? "male" : "female"}` },
 			{ name: "online", formatter: (online) => online === 1 },
 		]);
 		ssp.joins = [
 			{ table1: "characters", column1: "guid", table2: "guild_member", column2: "guid", kind: "LEFT" },
 			{ table1: "guild_member", column1: "guildid", table2: "guild", column2: "guildid", kind: "LEFT" },
 		];
-		ssp.extraDataColumns = ["`characters`.`gender`"];
+		ssp.extraDataColumns = ["`characters`.`gender`", "`characters`.`class`"];
 
 		if (this.armory.config.hideGameMasters) {
 			ssp.joins.push({
@@ -62,7 +72,7 @@ export class IndexController {
 			column2: "id",
 			database2: realm.authDatabase,
 			kind: "LEFT",
-			where: `AND \`account\`.\`username\` LIKE 'SRLE\%'`,
+			where: `AND \`account\`.\`username\` LIKE 'SRLE%'`,
 		});
 
 		const result = await ssp.where("`deleteInfos_Account` IS NULL").run(this.armory.config.dbQueryTimeout);
@@ -0,0 +1,120 @@
+import * as express from "express";
+import { RowDataPacket } from "mysql2";
+
+import { Armory } from "../Armory";
+import { DataTablesSsp } from "../DataTablesSsp";
+import { CharacterController } from "./CharacterController";
+import { InventoryTypeNames, ItemClassNames, ItemQualityNames, ItemSubclassNames } from "../data/Items";
+
+// Filters of the items search, query parameter and item_template column
+const SearchFilters = [
+	{ param: "slot", sql: "`item_template`.`InventoryType` = ?" },
+	{ param: "quality", sql: "`item_template`.`Quality` = ?" },
+	{ param: "class", sql: "`item_template`.`class` = ?" },
+	{ param: "minLevel", sql: "`item_template`.`ItemLevel` >= ?" },
+	{ param: "maxLevel", sql: "`item_template`.`ItemLevel` <= ?" },
+];
+
+export class ItemsController {
+	private armory: Armory;
+	private characters: CharacterController;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async index(req: express.Request, res: express.Response): Promise<void> {
+		const toOptions = (names: { [key: number]: string }) => Object.keys(names).map((id) => ({ id, name: names[id] }));
+		res.render("items.hbs", {
+			title: "Armory - Items",
+			slots: toOptions(InventoryTypeNames),
+			qualities: toOptions(ItemQualityNames),
+			classes: toOptions(ItemClassNames),
+		});
+	}
+
+	public async search(req: express.Request, res: express.Response): Promise<void> {
+		const ssp = new DataTablesSsp(req.query, this.armory.worldDb, "item_template", "entry", [
+			{ name: "name" },
+			{ name: "ItemLevel" },
+			{ name: "RequiredLevel" },
+			{ name: "InventoryType", formatter: (slot) => InventoryTypeNames[slot] ?? "" },
+			{ name: "class", formatter: (cls, row) => ItemSubclassNames[cls]?.[row[8]] ?? ItemClassNames[cls] ?? "" },
+			{ name: "icon", expression: "`item_template`.`entry`", formatter: (entry) => this.characters.getItemIcon(entry as number) },
+		]);
+		ssp.extraDataColumns = ["`item_template`.`Quality`", "`item_template`.`entry`", "`item_template`.`subclass`"];
+
+		for (const filter of SearchFilters) {
+			const value = parseInt(req.query[filter.param] as string, 10);
+			if (!isNaN(value)) {
+				ssp.where(filter.sql, value);
+			}
+		}
+
+		res.json(await ssp.run(this.armory.config.dbQueryTimeout));
+	}
+
+	public async item(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const entry = parseInt(req.params.entry, 10);
+		if (isNaN(entry)) {
+			// Could not find item
+			return next(404);
+		}
+
+		const [rows] = await this.armory.worldDb.query({
+			sql: "SELECT entry, name, Quality, InventoryType FROM item_template WHERE entry = ?",
+			values: [entry],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		if ((rows as RowDataPacket[]).length === 0) {
+			// Could not find item
+			return next(404);
+		}
+		const item = rows[0];
+
+		res.render("item.hbs", {
+			title: `Armory - ${item.name}`,
+			realms: this.armory.config.realms.map((r) => r.name),
+			contentPath: this.characters.getModelViewerContentPath(),
+			item: {
+				entry: item.entry,
+				name: item.name,
+				quality: item.Quality,
+				icon: this.characters.getItemIcon(item.entry),
+				model: await this.characters.getItemAppearance(item.entry),
+			},
+		});
+	}
+
+	public async equipped(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const entry = parseInt(req.params.entry, 10);
+		if (isNaN(entry)) {
+			// Could not find item
+			return next(404);
+		}
+
+		const list = await this.characters.makeCharacterListSsp(req.query);
+		if (list === null) {
+			return next(400);
+		}
+
+		// Items can be equipped twice, e.g. rings and trinkets, which must not list the character twice
+		const result = await list.ssp
+			.where(
+				`EXISTS (
+					SELECT 1
+					FROM character_inventory
+					JOIN item_instance ON item_instance.guid = character_inventory.item
+					WHERE character_inventory.guid = \`characters\`.\`guid\` AND character_inventory.bag = 0 AND character_inventory.slot < 19 AND item_instance.itemEntry = ?
+				)`,
+				entry,
+			)
+			.run(this.armory.config.dbQueryTimeout);
+
+		res.json({
+			...result,
+			realm: list.realm.name,
+		});
+	}
+}
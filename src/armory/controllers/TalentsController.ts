@@ -0,0 +1,46 @@
+import * as express from "express";
+
+import { Utils } from "../Utils";
+import { Armory } from "../Armory";
+import { CharacterController, ClassDisplayName } from "./CharacterController";
+
+const MaxTalentPoints = 71;
+
+export class TalentsController {
+	private armory: Armory;
+	private characters: CharacterController;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async calculator(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const classId = parseInt(
+			Object.keys(Utils.classNames).find((id) => Utils.classNames[id] === req.params.class),
+			10,
+		);
+		if (isNaN(classId)) {
+			// Could not find class
+			return next(404);
+		}
+
+		// Builds are one rank digit per talent, one group per tree, see talent-tree.js
+		const build = typeof req.query.build === "string" && /^[0-9-]*$/.test(req.query.build) ? req.query.build : "";
+		res.render("talent-calculator.hbs", {
+			title: `Armory - Talent Calculator - ${ClassDisplayName[classId]}`,
+			className: ClassDisplayName[classId],
+			classes: Object.keys(Utils.classNames).map((id) => ({
+				slug: Utils.classNames[id],
+				name: ClassDisplayName[id],
+				selected: parseInt(id, 10) === classId,
+			})),
+			data: {
+				classSlug: Utils.classNames[classId],
+				maxPoints: MaxTalentPoints,
+				build,
+				trees: await this.characters.getTalentTrees(classId),
+			},
+		});
+	}
+}
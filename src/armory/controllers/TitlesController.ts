@@ -0,0 +1,63 @@
+import * as express from "express";
+
+import { Armory } from "../Armory";
+import { CharacterController } from "./CharacterController";
+import { Titles } from "../data/Titles";
+
+export class TitlesController {
+	private armory: Armory;
+	private characters: CharacterController;
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async index(req: express.Request, res: express.Response): Promise<void> {
+		res.render("titles.hbs", {
+			title: "Armory - Titles",
+		});
+	}
+
+	public async titlesData(req: express.Request, res: express.Response): Promise<void> {
+		res.json({
+			data: this.armory.titles.all(),
+		});
+	}
+
+	public async charTitle(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const charTitle = this.armory.titles.getTitle(parseInt(req.params.id, 10));
+		if (charTitle === undefined) {
+			// Could not find title
+			return next(404);
+		}
+
+		res.render("titles-title.hbs", {
+			title: `Armory - Titles - ${charTitle.name}`,
+			realms: this.armory.config.realms.map((r) => r.name),
+			charTitle,
+		});
+	}
+
+	public async search(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const charTitle = this.armory.titles.getTitle(parseInt(req.params.id, 10));
+		if (charTitle === undefined) {
+			// Could not find title
+			return next(404);
+		}
+
+		const list = await this.characters.makeCharacterListSsp(req.query);
+		if (list === null) {
+			return next(400);
+		}
+
+		const result = await list.ssp
+			.where(Titles.knownTitleSql("`characters`.`knownTitles`", charTitle))
+			.run(this.armory.config.dbQueryTimeout);
+
+		res.json({
+			...result,
+			realm: list.realm.name,
+		});
+	}
+}
@@ -0,0 +1,370 @@
+import * as express from "express";
+import { RowDataPacket } from "mysql2";
+
+import { Armory } from "../Armory";
+import { ClassDisplayName, CharacterController, IItemInstance, IItemSet, RaceDisplayName, SocketColorNames } from "./CharacterController";
+import { StatSheet } from "../data/StatSheet";
+import { SpellText } from "../data/SpellText";
+import { InventoryTypeNames, ItemClassWeapon, ItemSubclassNames } from "../data/Items";
+import { ISpellDbc } from "../data/DbcReader";
+
+interface ITooltipLine {
+	text: string;
+	right?: string;
+	color?: string;
+}
+
+interface ITooltipSocket {
+	color: string;
+	text: string;
+	matches: boolean;
+}
+
+interface IItemTooltip {
+	entry: number;
+	name: string;
+	quality: number;
+	lines: ITooltipLine[];
+	sockets: ITooltipSocket[];
+	socketBonus: ITooltipLine | null;
+	requirements: ITooltipLine[];
+	effects: ITooltipLine[];
+	itemSet: IItemSet | null;
+	description: string;
+	creator: string | null;
+}
+
+interface ISpellTooltip {
+	id: number;
+	name: string;
+	rank: string;
+	lines: ITooltipLine[];
+	description: string | null;
+	talent: { rank: number; maxRank: number; next: string | null } | null;
+}
+
+const ItemFlagHeroic = 0x8;
+const ItemFlagUniqueEquipped = 0x80000;
+const ItemFlagAccountBound = 0x8000000;
+const ItemFieldFlagSoulbound = 0x1;
+// Masks of AllowableClass and AllowableRace which do not restrict the item
+const AllClassesMask = 0x5ff;
+const AllRacesMask = 0x6ff;
+const MaxItemStats = 10;
+const MaxItemSpells = 5;
+const MaxItemSockets = 3;
+// Indexed by spell school, starting with holy
+const ResistanceColumns = ["holy_res", "fire_res", "nature_res", "frost_res", "shadow_res", "arcane_res"];
+const BondingNames = {
+	1: "Binds when picked up",
+	2: "Binds when equipped",
+	3: "Binds when used",
+	4: "Quest Item",
+	5: "Quest Item",
+};
+const SpellAttributePassive = 0x40;
+const PowerTypeNames = {
+	0: "Mana",
+	1: "Rage",
+	2: "Focus",
+	3: "Energy",
+	6: "Runic Power",
+};
+// Rage and runic power costs are stored in tenths
+const PowerTypesInTenths = [1, 6];
+const SpellTriggerNames = {
+	0: "Use",
+	1: "Equip",
+	2: "Chance on hit",
+};
+
+export class TooltipController {
+	private armory: Armory;
+	private characters: CharacterController;
+	private talentRanks: { [key: number]: number[] };
+
+	public constructor(armory: Armory, characters: CharacterController) {
+		this.armory = armory;
+		this.characters = characters;
+	}
+
+	public async load(): Promise<void> {
+		// Each rank of a talent is a different spell
+		this.talentRanks = {};
+		for await (const talent of this.armory.dbc.talent()) {
+			const ranks = [talent.spellRank0, talent.spellRank1, talent.spellRank2, talent.spellRank3, talent.spellRank4].filter(
+				(spell) => spell !== 0,
+			);
+			for (const spell of ranks) {
+				this.talentRanks[spell] = ranks;
+			}
+		}
+	}
+
+	public async item(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const entry = parseInt(req.params.entry, 10);
+		if (isNaN(entry)) {
+			// Could not find item
+			return next(404);
+		}
+
+		const [rows] = await this.armory.worldDb.query({
+			sql: "SELECT * FROM item_template WHERE entry = ?",
+			values: [entry],
+			timeout: this.armory.config.dbQueryTimeout,
+		});
+		if ((rows as RowDataPacket[]).length === 0) {
+			// Could not find item
+			return next(404);
+		}
+		const template = rows[0] as RowDataPacket;
+
+		let instance: IItemInstance | null = null;
+		let itemSet = template.itemset !== 0 ? this.characters.getItemSet(template.itemset) : null;
+		if (req.query.guid !== undefined) {
+			const realmName = req.query.realm as string;
+			const realm = realmName === undefined ? this.armory.config.realms[0] : this.armory.getRealm(realmName);
+			if (realm === undefined) {
+				return next(400);
+			}
+
+			instance = await this.characters.getItemInstance(realm.name, parseInt(req.query.guid as string, 10));
+			const owner = instance !== null ? await this.characters.getCharacterData(realm, instance.owner) : null;
+			if (instance === null || instance.itemEntry !== entry || owner === null) {
+				// Could not find item, or it belongs to a hidden character
+				return next(404);
+			}
+
+			if (itemSet !== null) {
+				const equipment = await this.characters.getEquipment(realm.name, owner.guid);
+				itemSet = this.characters.getItemSets(equipment).find((set) => set.id === itemSet.id) ?? itemSet;
+			}
+		}
+
+		const tooltip = await this.makeItemTooltip(template, instance, itemSet);
+		res.render("tooltip-item.hbs", {
+			// Tooltips are fetched by tooltips.js when hovering links, they are only rendered as a page when opened directly
+			...(req.xhr ? { layout: false } : {}),
+			embedded: req.xhr,
+			title: `Armory - ${tooltip.name}`,
+			tooltip,
+		});
+	}
+
+	public async spell(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+		const spellId = parseInt(req.params.id, 10);
+		let spell = isNaN(spellId) ? undefined : await this.armory.dbc.spell().find((spell) => spell.id === spellId);
+		if (spell === undefined) {
+			// Could not find spell
+			return next(404);
+		}
+
+		// Talents show the learned rank when given one, and the description of the next rank.
+		// A talent without any point has no current rank, the first rank is shown as the next one like in game.
+		let talent: ISpellTooltip["talent"] = null;
+		const ranks = this.talentRanks[spell.id];
+		if (ranks !== undefined && req.query.rank !== undefined) {
+			const rank = Math.min(Math.max(parseInt(req.query.rank as string, 10) || 0, 0), ranks.length);
+			spell = await this.armory.dbc.spell().find((s) => s.id === ranks[Math.max(rank, 1) - 1]);
+			const nextRank = rank < ranks.length ? await this.armory.dbc.spell().find((s) => s.id === ranks[rank]) : undefined;
+			talent = {
+				rank,
+				maxRank: ranks.length,
+				next: nextRank !== undefined ? await SpellText.formatDescription(this.armory.dbc, nextRank) : null,
+			};
+		}
+
+		const tooltip = await this.makeSpellTooltip(spell, talent);
+		res.render("tooltip-spell.hbs", {
+			...(req.xhr ? { layout: false } : {}),
+			embedded: req.xhr,
+			title: `Armory - ${tooltip.name}`,
+			tooltip,
+		});
+	}
+
+	private async makeSpellTooltip(spell: ISpellDbc, talent: ISpellTooltip["talent"]): Promise<ISpellTooltip> {
+		const lines: ITooltipLine[] = [];
+		if ((spell.attributes & SpellAttributePassive) === 0) {
+			const range = await this.armory.dbc.spellRange().find((range) => range.id === spell.rangeIndex);
+			let rangeText = "";
+			if (range !== undefined && range.rangeMax0 !== 0) {
+				rangeText =
+					range.displayNameLang0 === "Melee Range" ? range.displayNameLang0 : `${Math.max(range.rangeMax0, range.rangeMax1)} yd range`;
+			}
+			const cost = this.getSpellCost(spell);
+			if (cost !== "" || rangeText !== "") {
+				lines.push({ text: cost, right: rangeText });
+			}
+
+			const castTime = await this.armory.dbc.spellCastTimes().find((castTime) => castTime.id === spell.castingTimeIndex);
+			lines.push({
+				text: castTime === undefined || castTime.base === 0 ? "Instant" : `${castTime.base / 1000} sec cast`,
+				right: spell.recoveryTime > 0 ? `${SpellText.formatDuration(spell.recoveryTime)} cooldown` : undefined,
+			});
+		}
+
+		return {
+			id: spell.id,
+			name: spell.nameLang0,
+			rank: spell.nameSubtextLang0,
+			lines,
+			description: talent?.rank === 0 ? null : await SpellText.formatDescription(this.armory.dbc, spell),
+			talent,
+		};
+	}
+
+	private getSpellCost(spell: ISpellDbc): string {
+		if (spell.manaCostPct > 0) {
+			return `${spell.manaCostPct}% of base mana`;
+		}
+		if (spell.manaCost === 0 || !(spell.powerType in PowerTypeNames)) {
+			return "";
+		}
+		const cost = PowerTypesInTenths.includes(spell.powerType) ? spell.manaCost / 10 : spell.manaCost;
+		return `${cost} ${PowerTypeNames[spell.powerType]}`;
+	}
+
+	private async makeItemTooltip(template: RowDataPacket, instance: IItemInstance | null, itemSet: IItemSet | null): Promise<IItemTooltip> {
+		const lines: ITooltipLine[] = [];
+		if ((template.Flags & ItemFlagHeroic) !== 0) {
+			lines.push({ text: "Heroic", color: "green" });
+		}
+		if (instance !== null && (instance.flags & ItemFieldFlagSoulbound) !== 0) {
+			lines.push({ text: "Soulbound" });
+		} else if ((template.Flags & ItemFlagAccountBound) !== 0) {
+			lines.push({ text: "Binds to account" });
+		} else if (template.bonding in BondingNames) {
+			lines.push({ text: BondingNames[template.bonding] });
+		}
+		if (template.maxcount === 1) {
+			lines.push({ text: "Unique" });
+		} else if ((template.Flags & ItemFlagUniqueEquipped) !== 0) {
+			lines.push({ text: "Unique-Equipped" });
+		}
+		if (template.InventoryType in InventoryTypeNames) {
+			lines.push({ text: InventoryTypeNames[template.InventoryType], right: ItemSubclassNames[template.class]?.[template.subclass] });
+		}
+
+		if (template.class === ItemClassWeapon && template.delay !== 0) {
+			const speed = template.delay / 1000;
+			const school = template.dmg_type1 !== 0 ? ` ${StatSheet.getResistanceName(template.dmg_type1)}` : "";
+			lines.push({ text: `${template.dmg_min1} - ${template.dmg_max1}${school} Damage`, right: `Speed ${speed.toFixed(2)}` });
+			if (template.dmg_max2 !== 0) {
+				const school2 = StatSheet.getResistanceName(template.dmg_type2) ?? "";
+				lines.push({ text: `+ ${template.dmg_min2} - ${template.dmg_max2} ${school2} Damage` });
+			}
+			const dps = (template.dmg_min1 + template.dmg_max1 + template.dmg_min2 + template.dmg_max2) / 2 / speed;
+			lines.push({ text: `(${dps.toFixed(1)} damage per second)` });
+		}
+		if (template.armor !== 0) {
+			lines.push({ text: `${template.armor} Armor` });
+		}
+		if (template.block !== 0) {
+			lines.push({ text: `${template.block} Block` });
+		}
+
+		const effects: ITooltipLine[] = [];
+		for (let i = 1; i <= MaxItemStats; ++i) {
+			const [stat, value] = [template[`stat_type${i}`], template[`stat_value${i}`]];
+			const name = StatSheet.getStatName(stat);
+			if (value === 0 || name === null) {
+				continue;
+			}
+			if (StatSheet.isPrimaryStat(stat)) {
+				lines.push({ text: `${value > 0 ? "+" : ""}${value} ${name}` });
+			} else {
+				effects.push({ text: `Equip: Increases ${name} by ${value}.`, color: "green" });
+			}
+		}
+		ResistanceColumns.forEach((column, idx) => {
+			if (template[column] !== 0) {
+				lines.push({ text: `+${template[column]} ${StatSheet.getResistanceName(idx + 1)} Resistance` });
+			}
+		});
+
+		for (const name of instance?.enchantmentNames ?? []) {
+			if (name !== "") {
+				lines.push({ text: name, color: "green" });
+			}
+		}
+
+		const sockets: ITooltipSocket[] = [];
+		if (instance !== null) {
+			for (const socket of instance.sockets) {
+				sockets.push({
+					color: socket.color,
+					text: socket.enchantment ?? this.getSocketName(socket.color),
+					matches: socket.matches,
+				});
+			}
+		} else {
+			for (let i = 1; i <= MaxItemSockets; ++i) {
+				const color = SocketColorNames[template[`socketColor_${i}`]];
+				if (color !== undefined) {
+					sockets.push({ color, text: this.getSocketName(color), matches: false });
+				}
+			}
+		}
+		const socketBonusName = template.socketBonus !== 0 ? this.characters.getEnchantmentName(template.socketBonus) : null;
+		const socketBonus =
+			socketBonusName !== null ? { text: `Socket Bonus: ${socketBonusName}`, color: instance?.socketBonusActive ? "green" : "grey" } : null;
+
+		const requirements: ITooltipLine[] = [];
+		if (template.MaxDurability !== 0) {
+			requirements.push({ text: `Durability ${instance?.durability ?? template.MaxDurability} / ${template.MaxDurability}` });
+		}
+		if (template.AllowableClass > 0 && (template.AllowableClass & AllClassesMask) !== AllClassesMask) {
+			const classes = Object.keys(ClassDisplayName).filter((id) => (template.AllowableClass & (1 << (parseInt(id, 10) - 1))) !== 0);
+			requirements.push({ text: `Classes: ${classes.map((id) => ClassDisplayName[id]).join(", ")}` });
+		}
+		if (template.AllowableRace > 0 && (template.AllowableRace & AllRacesMask) !== AllRacesMask) {
+			const races = Object.keys(RaceDisplayName).filter((id) => (template.AllowableRace & (1 << (parseInt(id, 10) - 1))) !== 0);
+			requirements.push({ text: `Races: ${races.map((id) => RaceDisplayName[id]).join(", ")}` });
+		}
+		if (template.RequiredLevel > 1) {
+			requirements.push({ text: `Requires Level ${template.RequiredLevel}` });
+		}
+		if (template.RequiredSkill !== 0) {
+			const skill = await this.armory.dbc.skillLine().find((skill) => skill.id === template.RequiredSkill);
+			if (skill !== undefined) {
+				requirements.push({ text: `Requires ${skill.displayNameLang0} (${template.RequiredSkillRank})` });
+			}
+		}
+		if (template.ItemLevel !== 0) {
+			requirements.push({ text: `Item Level ${template.ItemLevel}` });
+		}
+
+		for (let i = 1; i <= MaxItemSpells; ++i) {
+			const trigger = SpellTriggerNames[template[`spelltrigger_${i}`]];
+			const spellId = template[`spellid_${i}`];
+			if (trigger === undefined || spellId <= 0) {
+				continue;
+			}
+			const spell = await this.armory.dbc.spell().find((spell) => spell.id === spellId);
+			const description = spell !== undefined ? await SpellText.formatDescription(this.armory.dbc, spell) : "";
+			if (description !== "") {
+				effects.push({ text: `${trigger}: ${description}`, color: "green" });
+			}
+		}
+
+		const suffix = instance?.suffix ?? null;
+		return {
+			entry: template.entry,
+			name: suffix !== null ? `${template.name} ${suffix}` : template.name,
+			quality: template.Quality,
+			lines,
+			sockets,
+			socketBonus,
+			requirements,
+			effects,
+			itemSet,
+			description: template.description,
+			creator: instance?.creator ?? null,
+		};
+	}
+
+	private getSocketName(color: string): string {
+		return `${color.charAt(0).toUpperCase()}${color.slice(1)} Socket`;
+	}
+}
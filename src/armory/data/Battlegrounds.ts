@@ -0,0 +1,12 @@
+// Names of the battleground types recorded in pvpstats_battlegrounds, shared by the character PvP tab and the battleground ladder
+export const BattlegroundNames = {
+	1: "Alterac Valley",
+	2: "Warsong Gulch",
+	3: "Arathi Basin",
+	7: "Eye of the Storm",
+	9: "Strand of the Ancients",
+	30: "Isle of Conquest",
+};
+
+// The objectives of every battleground (flag captures, bases assaulted and defended, etc) are stored in attr_1 to attr_5
+export const BattlegroundObjectivesSql = "attr_1 + attr_2 + attr_3 + attr_4 + attr_5";
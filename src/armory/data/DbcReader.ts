@@ -3,6 +3,49 @@ import * as path from "path";
 
 import * as camelCase from "camelcase";
 
+export interface IFactionDbc {
+	id: number;
+	reputationIndex: number;
+	reputationRaceMask0: number;
+	reputationRaceMask1: number;
+	reputationRaceMask2: number;
+	reputationRaceMask3: number;
+	reputationClassMask0: number;
+	reputationClassMask1: number;
+	reputationClassMask2: number;
+	reputationClassMask3: number;
+	reputationBase0: number;
+	reputationBase1: number;
+	reputationBase2: number;
+	reputationBase3: number;
+	parentFactionId: number;
+	nameLang0: string;
+}
+
+export interface ICharTitlesDbc {
+	id: number;
+	nameLang0: string;
+	maskId: number;
+}
+
+export interface ICreatureDbc {
+	id: number;
+	displayId0: number;
+}
+
+export interface ICreatureFamilyDbc {
+	id: number;
+	petTalentType: number;
+	nameLang0: string;
+	iconFile: string;
+}
+
+export interface IGemPropertiesDbc {
+	id: number;
+	enchantId: number;
+	type: number;
+}
+
 export interface IGlyphProperties {
 	id: number;
 	spellId: number;
@@ -19,6 +62,15 @@ export interface IAchievement {
 	iconId: number;
 }
 
+export interface IAchievementCriteria {
+	id: number;
+	achievementId: number;
+	type: number;
+	assetId: number;
+	quantity: number;
+	descriptionLang0: string;
+}
+
 export interface IAchievementCategory {
 	id: number;
 	parent: number;
@@ -54,6 +106,54 @@ export interface IItemDisplayInfoDbc {
 	inventoryIcon0: number;
 }
 
+export interface IItemSetDbc {
+	id: number;
+	nameLang0: string;
+	itemId0: number;
+	itemId1: number;
+	itemId2: number;
+	itemId3: number;
+	itemId4: number;
+	itemId5: number;
+	itemId6: number;
+	itemId7: number;
+	itemId8: number;
+	itemId9: number;
+	itemId10: number;
+	itemId11: number;
+	itemId12: number;
+	itemId13: number;
+	itemId14: number;
+	itemId15: number;
+	itemId16: number;
+	setSpellId0: number;
+	setSpellId1: number;
+	setSpellId2: number;
+	setSpellId3: number;
+	setSpellId4: number;
+	setSpellId5: number;
+	setSpellId6: number;
+	setSpellId7: number;
+	setThreshold0: number;
+	setThreshold1: number;
+	setThreshold2: number;
+	setThreshold3: number;
+	setThreshold4: number;
+	setThreshold5: number;
+	setThreshold6: number;
+	setThreshold7: number;
+}
+
+export interface IItemRandomPropertiesDbc {
+	id: number;
+	nameLang0: string;
+}
+
+export interface IItemRandomSuffixDbc {
+	id: number;
+	nameLang0: string;
+}
+
 export interface IMountDbc {
 	id: number;
 	sourceSpellId: number;
@@ -65,17 +165,86 @@ export interface IMountXDisplayDbc {
 	mountId: number;
 }
 
+export interface ISkillLineAbilityDbc {
+	id: number;
+	skillLine: number;
+	spell: number;
+}
+
 export interface ISpellDbc {
 	id: number;
 	mechanic: number;
+	attributes: number;
+	castingTimeIndex: number;
+	recoveryTime: number;
+	durationIndex: number;
+	powerType: number;
+	manaCost: number;
+	manaCostPct: number;
+	rangeIndex: number;
+	effect0: number;
+	effect1: number;
+	effect2: number;
+	effectItemType0: number;
+	effectItemType1: number;
+	effectItemType2: number;
+	effectMiscValue0: number;
+	effectMiscValue1: number;
+	effectMiscValue2: number;
+	effectBasePoints0: number;
+	effectBasePoints1: number;
+	effectBasePoints2: number;
+	effectDieSides0: number;
+	effectDieSides1: number;
+	effectDieSides2: number;
+	effectAuraPeriod0: number;
+	effectAuraPeriod1: number;
+	effectAuraPeriod2: number;
 	spellIconId: number;
+	nameLang0: string;
+	nameSubtextLang0: string;
+	descriptionLang0: string;
+}
+
+export interface ISpellCastTimesDbc {
+	id: number;
+	base: number;
+}
+
+export interface ISpellDurationDbc {
+	id: number;
+	duration: number;
+}
+
+export interface ISpellRangeDbc {
+	id: number;
+	rangeMax0: number;
+	rangeMax1: number;
+	displayNameLang0: string;
 }
 
 export interface ISpellItemEnchantmentDbc {
 	id: number;
+	effect0: number;
+	effect1: number;
+	effect2: number;
+	effectPointsMin0: number;
+	effectPointsMin1: number;
+	effectPointsMin2: number;
+	effectArg0: number;
+	effectArg1: number;
+	effectArg2: number;
+	nameLang0: string;
 	srcItemId: number;
 }
 
+export interface ISkillLineDbc {
+	id: number;
+	categoryId: number;
+	displayNameLang0: string;
+	spellIconId: number;
+}
+
 export interface ISpellIcon {
 	id: number;
 	textureFilename: string;
@@ -100,6 +269,8 @@ export interface ITalentTab {
 	nameLang0: string;
 	spellIconId: number;
 	classMask: number;
+	// Pet talent mask, 1 << CreatureFamily.petTalentType
+	categoryEnumId: number;
 }
 
 interface IAsyncGeneratorWithArrayMethods<T> {
@@ -212,6 +383,11 @@ class DbcReader<T> {
 	}
 
 	public async *read(): AsyncGenerator<T> {
+		if (!fs.existsSync(this.filePath)) {
+			// Exports that were not downloaded yet are read as empty tables, see DbcManager.getMissingFiles
+			return;
+		}
+
 		const stream = fs.createReadStream(this.filePath);
 		const itr = this.parseCsv(stream);
 		const headerLine = await itr.next();
@@ -305,15 +481,29 @@ const dir = path.join(process.cwd(), "data");
 export const DbcFiles = {
 	achievement: path.join(dir, "Achievement_3.3.5_12340.csv"),
 	achievementCategory: path.join(dir, "AchievementCategory_3.3.5_12340.csv"),
+	achievementCriteria: path.join(dir, "AchievementCriteria_3.3.5_12340.csv"),
+	charTitles: path.join(dir, "CharTitles_3.3.5_12340.csv"),
+	creature: path.join(dir, "Creature_9.2.0_41462.csv"),
+	creatureFamily: path.join(dir, "CreatureFamily_3.3.5_12340.csv"),
+	faction: path.join(dir, "Faction_3.3.5_12340.csv"),
+	gemProperties: path.join(dir, "GemProperties_3.3.5_12340.csv"),
 	glyphProperties: path.join(dir, "GlyphProperties_3.3.5_12340.csv"),
 	item: path.join(dir, "Item_3.3.5_12340.csv"),
 	itemRetail: path.join(dir, "Item_9.2.0_41462.csv"),
 	itemAppearance: path.join(dir, "ItemAppearance_9.2.0_41462.csv"),
 	itemModifiedAppearance: path.join(dir, "ItemModifiedAppearance_9.2.0_41462.csv"),
 	itemDisplayInfo: path.join(dir, "ItemDisplayInfo_3.3.5_12340.csv"),
+	itemRandomProperties: path.join(dir, "ItemRandomProperties_3.3.5_12340.csv"),
+	itemRandomSuffix: path.join(dir, "ItemRandomSuffix_3.3.5_12340.csv"),
+	itemSet: path.join(dir, "ItemSet_3.3.5_12340.csv"),
 	mount: path.join(dir, "Mount_9.2.0_41462.csv"),
 	mountDisplay: path.join(dir, "MountXDisplay_9.2.0_41462.csv"),
+	skillLine: path.join(dir, "SkillLine_3.3.5_12340.csv"),
+	skillLineAbility: path.join(dir, "SkillLineAbility_3.3.5_12340.csv"),
 	spell: path.join(dir, "Spell_3.3.5_12340.csv"),
+	spellCastTimes: path.join(dir, "SpellCastTimes_3.3.5_12340.csv"),
+	spellDuration: path.join(dir, "SpellDuration_3.3.5_12340.csv"),
+	spellRange: path.join(dir, "SpellRange_3.3.5_12340.csv"),
 	spellItemEnchantment: path.join(dir, "SpellItemEnchantment_3.3.5_12340.csv"),
 	spellIcon: path.join(dir, "SpellIcon_3.3.5_12340.csv"),
 	talent: path.join(dir, "Talent_3.3.5_12340.csv"),
@@ -323,16 +513,129 @@ export const DbcFiles = {
 const dbcFields = {
 	achievement: ["id", "faction", "titleLang0", "descriptionLang0", "category", "points", "flags", "iconId"],
 	achievementCategory: ["id", "parent", "nameLang0"],
+	achievementCriteria: ["id", "achievementId", "type", "assetId", "quantity", "descriptionLang0"],
+	charTitles: ["id", "nameLang0", "maskId"],
+	creature: ["id", "displayId0"],
+	creatureFamily: ["id", "petTalentType", "nameLang0", "iconFile"],
+	faction: [
+		"id",
+		"reputationIndex",
+		"reputationRaceMask0",
+		"reputationRaceMask1",
+		"reputationRaceMask2",
+		"reputationRaceMask3",
+		"reputationClassMask0",
+		"reputationClassMask1",
+		"reputationClassMask2",
+		"reputationClassMask3",
+		"reputationBase0",
+		"reputationBase1",
+		"reputationBase2",
+		"reputationBase3",
+		"parentFactionId",
+		"nameLang0",
+	],
+	gemProperties: ["id", "enchantId", "type"],
 	glyphProperties: ["id", "spellId"],
 	item: ["id", "classId", "subclassId", "displayInfoId", "inventoryType"],
 	itemRetail: ["id", "inventoryType"],
 	itemAppearance: ["id", "itemDisplayInfoId"],
 	itemModifiedAppearance: ["id", "itemId", "itemAppearanceId"],
 	itemDisplayInfo: ["id", "inventoryIcon0"],
+	itemRandomProperties: ["id", "nameLang0"],
+	itemRandomSuffix: ["id", "nameLang0"],
+	itemSet: [
+		"id",
+		"nameLang0",
+		"itemId0",
+		"itemId1",
+		"itemId2",
+		"itemId3",
+		"itemId4",
+		"itemId5",
+		"itemId6",
+		"itemId7",
+		"itemId8",
+		"itemId9",
+		"itemId10",
+		"itemId11",
+		"itemId12",
+		"itemId13",
+		"itemId14",
+		"itemId15",
+		"itemId16",
+		"setSpellId0",
+		"setSpellId1",
+		"setSpellId2",
+		"setSpellId3",
+		"setSpellId4",
+		"setSpellId5",
+		"setSpellId6",
+		"setSpellId7",
+		"setThreshold0",
+		"setThreshold1",
+		"setThreshold2",
+		"setThreshold3",
+		"setThreshold4",
+		"setThreshold5",
+		"setThreshold6",
+		"setThreshold7",
+	],
 	mount: ["id", "sourceSpellId"],
 	mountDisplay: ["id", "creatureDisplayInfoId", "mountId"],
-	spell: ["id", "mechanic", "spellIconId"],
-	spellItemEnchantment: ["id", "srcItemId"],
+	skillLine: ["id", "categoryId", "displayNameLang0", "spellIconId"],
+	skillLineAbility: ["id", "skillLine", "spell"],
+	spell: [
+		"id",
+		"mechanic",
+		"attributes",
+		"castingTimeIndex",
+		"recoveryTime",
+		"durationIndex",
+		"powerType",
+		"manaCost",
+		"manaCostPct",
+		"rangeIndex",
+		"effect0",
+		"effect1",
+		"effect2",
+		"effectItemType0",
+		"effectItemType1",
+		"effectItemType2",
+		"effectMiscValue0",
+		"effectMiscValue1",
+		"effectMiscValue2",
+		"effectBasePoints0",
+		"effectBasePoints1",
+		"effectBasePoints2",
+		"effectDieSides0",
+		"effectDieSides1",
+		"effectDieSides2",
+		"effectAuraPeriod0",
+		"effectAuraPeriod1",
+		"effectAuraPeriod2",
+		"spellIconId",
+		"nameLang0",
+		"nameSubtextLang0",
+		"descriptionLang0",
+	],
+	spellCastTimes: ["id", "base"],
+	spellDuration: ["id", "duration"],
+	spellRange: ["id", "rangeMax0", "rangeMax1", "displayNameLang0"],
+	spellItemEnchantment: [
+		"id",
+		"effect0",
+		"effect1",
+		"effect2",
+		"effectPointsMin0",
+		"effectPointsMin1",
+		"effectPointsMin2",
+		"effectArg0",
+		"effectArg1",
+		"effectArg2",
+		"nameLang0",
+		"srcItemId",
+	],
 	spellIcon: ["id", "textureFilename"],
 	talent: [
 		"id",
@@ -347,21 +650,35 @@ const dbcFields = {
 		"prereqTalent0",
 		"prereqRank0",
 	],
-	talentTab: ["id", "nameLang0", "spellIconId", "classMask"],
+	talentTab: ["id", "nameLang0", "spellIconId", "classMask", "categoryEnumId"],
 };
 
 export class DbcManager {
 	private _achievement: IAchievement[];
 	private _achievementCategory: IAchievementCategory[];
+	private _achievementCriteria: IAchievementCriteria[];
+	private _charTitles: ICharTitlesDbc[];
+	private _creature: ICreatureDbc[];
+	private _creatureFamily: ICreatureFamilyDbc[];
+	private _faction: IFactionDbc[];
+	private _gemProperties: IGemPropertiesDbc[];
 	private _glyphProperties: IGlyphProperties[];
 	private _item: IItemDbc[];
 	private _itemRetail: IItemRetailDbc[];
 	private _itemAppearance: IItemAppearanceDbc[];
 	private _itemModifiedAppearance: IItemModifiedAppearanceDbc[];
 	private _itemDisplayInfo: IItemDisplayInfoDbc[];
+	private _itemRandomProperties: IItemRandomPropertiesDbc[];
+	private _itemRandomSuffix: IItemRandomSuffixDbc[];
+	private _itemSet: IItemSetDbc[];
 	private _mount: IMountDbc[];
 	private _mountDisplay: IMountXDisplayDbc[];
+	private _skillLine: ISkillLineDbc[];
+	private _skillLineAbility: ISkillLineAbilityDbc[];
 	private _spell: ISpellDbc[];
+	private _spellCastTimes: ISpellCastTimesDbc[];
+	private _spellDuration: ISpellDurationDbc[];
+	private _spellRange: ISpellRangeDbc[];
 	private _spellItemEnchantment: ISpellItemEnchantmentDbc[];
 	private _spellIcon: ISpellIcon[];
 	private _talent: ITalent[];
@@ -373,6 +690,15 @@ export class DbcManager {
 			DbcFiles.achievementCategory,
 			dbcFields.achievementCategory,
 		).toArray();
+		this._achievementCriteria = await this.read<IAchievementCriteria>(
+			DbcFiles.achievementCriteria,
+			dbcFields.achievementCriteria,
+		).toArray();
+		this._charTitles = await this.read<ICharTitlesDbc>(DbcFiles.charTitles, dbcFields.charTitles).toArray();
+		this._creature = await this.read<ICreatureDbc>(DbcFiles.creature, dbcFields.creature).toArray();
+		this._creatureFamily = await this.read<ICreatureFamilyDbc>(DbcFiles.creatureFamily, dbcFields.creatureFamily).toArray();
+		this._faction = await this.read<IFactionDbc>(DbcFiles.faction, dbcFields.faction).toArray();
+		this._gemProperties = await this.read<IGemPropertiesDbc>(DbcFiles.gemProperties, dbcFields.gemProperties).toArray();
 		this._glyphProperties = await this.read<IGlyphProperties>(DbcFiles.glyphProperties, dbcFields.glyphProperties).toArray();
 		this._item = await this.read<IItemDbc>(DbcFiles.item, dbcFields.item).toArray();
 		this._itemRetail = await this.read<IItemRetailDbc>(DbcFiles.itemRetail, dbcFields.itemRetail).toArray();
@@ -382,9 +708,20 @@ export class DbcManager {
 			dbcFields.itemModifiedAppearance,
 		).toArray();
 		this._itemDisplayInfo = await this.read<IItemDisplayInfoDbc>(DbcFiles.itemDisplayInfo, dbcFields.itemDisplayInfo).toArray();
+		this._itemRandomProperties = await this.read<IItemRandomPropertiesDbc>(
+			DbcFiles.itemRandomProperties,
+			dbcFields.itemRandomProperties,
+		).toArray();
+		this._itemRandomSuffix = await this.read<IItemRandomSuffixDbc>(DbcFiles.itemRandomSuffix, dbcFields.itemRandomSuffix).toArray();
+		this._itemSet = await this.read<IItemSetDbc>(DbcFiles.itemSet, dbcFields.itemSet).toArray();
 		this._mount = await this.read<IMountDbc>(DbcFiles.mount, dbcFields.mount).toArray();
 		this._mountDisplay = await this.read<IMountXDisplayDbc>(DbcFiles.mountDisplay, dbcFields.mountDisplay).toArray();
+		this._skillLine = await this.read<ISkillLineDbc>(DbcFiles.skillLine, dbcFields.skillLine).toArray();
+		this._skillLineAbility = await this.read<ISkillLineAbilityDbc>(DbcFiles.skillLineAbility, dbcFields.skillLineAbility).toArray();
 		this._spell = await this.read<ISpellDbc>(DbcFiles.spell, dbcFields.spell).toArray();
+		this._spellCastTimes = await this.read<ISpellCastTimesDbc>(DbcFiles.spellCastTimes, dbcFields.spellCastTimes).toArray();
+		this._spellDuration = await this.read<ISpellDurationDbc>(DbcFiles.spellDuration, dbcFields.spellDuration).toArray();
+		this._spellRange = await this.read<ISpellRangeDbc>(DbcFiles.spellRange, dbcFields.spellRange).toArray();
 		this._spellItemEnchantment = await this.read<ISpellItemEnchantmentDbc>(
 			DbcFiles.spellItemEnchantment,
 			dbcFields.spellItemEnchantment,
@@ -394,6 +731,15 @@ export class DbcManager {
 		this._talentTab = await this.read<ITalentTab>(DbcFiles.talentTab, dbcFields.talentTab).toArray();
 	}
 
+	/**
+	 * Lists the DBC exports that are missing from the data directory, the features that use them show no data.
+	 */
+	public getMissingFiles(): string[] {
+		return Object.values(DbcFiles)
+			.filter((file) => !fs.existsSync(file))
+			.map((file) => path.basename(file));
+	}
+
 	public achievement() {
 		return this.getLoadedDataOrRead(DbcFiles.achievement, this._achievement, dbcFields.achievement);
 	}
@@ -402,6 +748,30 @@ export class DbcManager {
 		return this.getLoadedDataOrRead(DbcFiles.achievementCategory, this._achievementCategory, dbcFields.achievementCategory);
 	}
 
+	public achievementCriteria() {
+		return this.getLoadedDataOrRead(DbcFiles.achievementCriteria, this._achievementCriteria, dbcFields.achievementCriteria);
+	}
+
+	public charTitles() {
+		return this.getLoadedDataOrRead(DbcFiles.charTitles, this._charTitles, dbcFields.charTitles);
+	}
+
+	public creature() {
+		return this.getLoadedDataOrRead(DbcFiles.creature, this._creature, dbcFields.creature);
+	}
+
+	public creatureFamily() {
+		return this.getLoadedDataOrRead(DbcFiles.creatureFamily, this._creatureFamily, dbcFields.creatureFamily);
+	}
+
+	public faction() {
+		return this.getLoadedDataOrRead(DbcFiles.faction, this._faction, dbcFields.faction);
+	}
+
+	public gemProperties() {
+		return this.getLoadedDataOrRead(DbcFiles.gemProperties, this._gemProperties, dbcFields.gemProperties);
+	}
+
 	public glyphProperties() {
 		return this.getLoadedDataOrRead(DbcFiles.glyphProperties, this._glyphProperties, dbcFields.glyphProperties);
 	}
@@ -426,6 +796,18 @@ export class DbcManager {
 		return this.getLoadedDataOrRead(DbcFiles.itemDisplayInfo, this._itemDisplayInfo, dbcFields.itemDisplayInfo);
 	}
 
+	public itemRandomProperties() {
+		return this.getLoadedDataOrRead(DbcFiles.itemRandomProperties, this._itemRandomProperties, dbcFields.itemRandomProperties);
+	}
+
+	public itemRandomSuffix() {
+		return this.getLoadedDataOrRead(DbcFiles.itemRandomSuffix, this._itemRandomSuffix, dbcFields.itemRandomSuffix);
+	}
+
+	public itemSet() {
+		return this.getLoadedDataOrRead(DbcFiles.itemSet, this._itemSet, dbcFields.itemSet);
+	}
+
 	public mount() {
 		return this.getLoadedDataOrRead(DbcFiles.mount, this._mount, dbcFields.mount);
 	}
@@ -434,10 +816,30 @@ export class DbcManager {
 		return this.getLoadedDataOrRead(DbcFiles.mountDisplay, this._mountDisplay, dbcFields.mountDisplay);
 	}
 
+	public skillLine() {
+		return this.getLoadedDataOrRead(DbcFiles.skillLine, this._skillLine, dbcFields.skillLine);
+	}
+
+	public skillLineAbility() {
+		return this.getLoadedDataOrRead(DbcFiles.skillLineAbility, this._skillLineAbility, dbcFields.skillLineAbility);
+	}
+
 	public spell() {
 		return this.getLoadedDataOrRead(DbcFiles.spell, this._spell, dbcFields.spell);
 	}
 
+	public spellCastTimes() {
+		return this.getLoadedDataOrRead(DbcFiles.spellCastTimes, this._spellCastTimes, dbcFields.spellCastTimes);
+	}
+
+	public spellDuration() {
+		return this.getLoadedDataOrRead(DbcFiles.spellDuration, this._spellDuration, dbcFields.spellDuration);
+	}
+
+	public spellRange() {
+		return this.getLoadedDataOrRead(DbcFiles.spellRange, this._spellRange, dbcFields.spellRange);
+	}
+
 	public spellItemEnchantment() {
 		return this.getLoadedDataOrRead(DbcFiles.spellItemEnchantment, this._spellItemEnchantment, dbcFields.spellItemEnchantment);
 	}
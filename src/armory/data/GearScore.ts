@@ -0,0 +1,118 @@
+const SlotMainHand = 15;
+const SlotOffHand = 16;
+const SlotRanged = 17;
+// All equipment slots except the shirt (3) and the tabard (18)
+const ScoredSlots = [0, 1, 2, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, SlotMainHand, SlotOffHand, SlotRanged];
+const InvTypeTwoHand = 17;
+const ClassHunter = 3;
+
+// Constants from the GearScoreLite addon
+const GearScoreScale = 1.8618;
+const GearScoreFormula = {
+	// Item level above 120
+	A: {
+		4: { a: 91.45, b: 0.65 },
+		3: { a: 81.375, b: 0.8125 },
+		2: { a: 73.0, b: 1.0 },
+	},
+	// Item level 120 and below
+	B: {
+		4: { a: 26.0, b: 1.2 },
+		3: { a: 0.75, b: 1.8 },
+		2: { a: 8.0, b: 2.0 },
+		1: { a: 0.0, b: 2.25 },
+	},
+};
+// Score modifier by item_template.InventoryType
+const GearScoreSlotModifiers = {
+	1: 1.0, // Head
+	2: 0.5625, // Neck
+	3: 0.75, // Shoulders
+	5: 1.0, // Chest
+	6: 0.75, // Waist
+	7: 1.0, // Legs
+	8: 0.75, // Feet
+	9: 0.5625, // Wrists
+	10: 0.75, // Hands
+	11: 0.5625, // Finger
+	12: 0.5625, // Trinket
+	13: 1.0, // One-Hand
+	14: 1.0, // Shield
+	15: 0.3164, // Ranged
+	16: 0.5625, // Back
+	17: 2.0, // Two-Hand
+	20: 1.0, // Robe
+	21: 1.0, // Main Hand
+	22: 1.0, // Off Hand
+	23: 1.0, // Held In Off-hand
+	25: 0.3164, // Thrown
+	26: 0.3164, // Ranged (wands, guns, crossbows)
+	28: 0.3164, // Relic
+};
+const GearScoreHunterModifiers = {
+	[SlotMainHand]: 0.3164,
+	[SlotOffHand]: 0.3164,
+	[SlotRanged]: 5.3224,
+};
+
+/**
+ * Builds SQL subqueries computing the average item level and the GearScore of a character from the characters database,
+ * so that they can be selected and sorted on like regular columns.
+ */
+export class GearScore {
+	public static averageItemLevelSql(guidColumn: string, worldDatabase: string): string {
+		// A two-handed weapon without an off-hand counts for both hands
+		const twoHandBonus = `IF(
+			SUM(gs_inv.slot = ${SlotOffHand}) = 0,
+			IFNULL(MAX(IF(gs_inv.slot = ${SlotMainHand} AND gs_tpl.InventoryType = ${InvTypeTwoHand}, gs_tpl.ItemLevel, NULL)), 0),
+			0
+		)`;
+
+		return `(
+			SELECT CAST(IFNULL(FLOOR((SUM(gs_tpl.ItemLevel) + ${twoHandBonus}) / ${ScoredSlots.length}), 0) AS UNSIGNED)
+			${GearScore.equippedItemsSql(guidColumn, worldDatabase)}
+		)`;
+	}
+
+	public static gearScoreSql(guidColumn: string, classColumn: string, worldDatabase: string): string {
+		const quality = "gs_tpl.Quality";
+		// Heirlooms are scored as rare items of level 187.05
+		const itemLevel = `IF(${quality} = 7, 187.05, gs_tpl.ItemLevel)`;
+		const rarity = `(CASE ${quality} WHEN 5 THEN 4 WHEN 7 THEN 3 WHEN 0 THEN 2 WHEN 1 THEN 2 ELSE ${quality} END)`;
+		const formula = (table: { [key: number]: { a: number; b: number } }) =>
+			`CASE ${rarity} ${Object.keys(table)
+				.map((r) => `WHEN ${r} THEN (${itemLevel} - ${table[r].a}) / ${table[r].b}`)
+				.join(" ")} END`;
+		const slotModifier = `CASE gs_tpl.InventoryType ${Object.keys(GearScoreSlotModifiers)
+			.map((invType) => `WHEN ${invType} THEN ${GearScoreSlotModifiers[invType]}`)
+			.join(" ")} ELSE 0 END`;
+		const qualityScale = `CASE WHEN ${quality} = 5 THEN 1.3 WHEN ${quality} IN (0, 1) THEN 0.005 ELSE 1 END`;
+		const hunterModifier = `IF(${classColumn} = ${ClassHunter}, CASE gs_inv.slot ${Object.keys(GearScoreHunterModifiers)
+			.map((slot) => `WHEN ${slot} THEN ${GearScoreHunterModifiers[slot]}`)
+			.join(" ")} ELSE 1 END, 1)`;
+
+		const itemScore = `IFNULL(GREATEST(0, FLOOR(
+			(CASE WHEN ${itemLevel} > 120 THEN ${formula(GearScoreFormula.A)} ELSE ${formula(GearScoreFormula.B)} END)
+			* (${slotModifier}) * ${GearScoreScale} * (${qualityScale})
+		)), 0) * (${hunterModifier})`;
+		const isWeapon = `gs_inv.slot IN (${SlotMainHand}, ${SlotOffHand})`;
+		// Titan's Grip: two two-handed weapons are only worth half their score
+		const titansGrip = `IF(SUM(${isWeapon} AND gs_tpl.InventoryType = ${InvTypeTwoHand}) = 2, 0.5, 1)`;
+
+		return `(
+			SELECT CAST(IFNULL(FLOOR(
+				SUM(IF(${isWeapon}, 0, ${itemScore})) + SUM(IF(${isWeapon}, ${itemScore}, 0)) * ${titansGrip}
+			), 0) AS UNSIGNED)
+			${GearScore.equippedItemsSql(guidColumn, worldDatabase)}
+		)`;
+	}
+
+	private static equippedItemsSql(guidColumn: string, worldDatabase: string): string {
+		return `
+			FROM character_inventory gs_inv
+			JOIN item_instance gs_item ON gs_item.guid = gs_inv.item
+			JOIN \`${worldDatabase}\`.item_template gs_tpl ON gs_tpl.entry = gs_item.itemEntry
+			WHERE gs_inv.guid = ${guidColumn} AND gs_inv.bag = 0 AND gs_inv.slot IN (${ScoredSlots.join(", ")})
+		`;
+	}
+}
@@ -0,0 +1,90 @@
+// Names of the item_template enumerations, shared by the item tooltips and the item browser
+export const ItemClassWeapon = 2;
+export const ItemClassArmor = 4;
+
+export const ItemQualityNames = {
+	0: "Poor",
+	1: "Common",
+	2: "Uncommon",
+	3: "Rare",
+	4: "Epic",
+	5: "Legendary",
+	6: "Artifact",
+	7: "Heirloom",
+};
+export const ItemClassNames = {
+	0: "Consumable",
+	1: "Container",
+	2: "Weapon",
+	3: "Gem",
+	4: "Armor",
+	5: "Reagent",
+	6: "Projectile",
+	7: "Trade Goods",
+	9: "Recipe",
+	11: "Quiver",
+	12: "Quest",
+	13: "Key",
+	15: "Miscellaneous",
+	16: "Glyph",
+};
+export const InventoryTypeNames = {
+	1: "Head",
+	2: "Neck",
+	3: "Shoulder",
+	4: "Shirt",
+	5: "Chest",
+	6: "Waist",
+	7: "Legs",
+	8: "Feet",
+	9: "Wrist",
+	10: "Hands",
+	11: "Finger",
+	12: "Trinket",
+	13: "One-Hand",
+	14: "Off Hand",
+	15: "Ranged",
+	16: "Back",
+	17: "Two-Hand",
+	18: "Bag",
+	19: "Tabard",
+	20: "Chest",
+	21: "Main Hand",
+	22: "Off Hand",
+	23: "Held In Off-hand",
+	24: "Projectile",
+	25: "Thrown",
+	26: "Ranged",
+	28: "Relic",
+};
+export const ItemSubclassNames = {
+	[ItemClassWeapon]: {
+		0: "Axe",
+		1: "Axe",
+		2: "Bow",
+		3: "Gun",
+		4: "Mace",
+		5: "Mace",
+		6: "Polearm",
+		7: "Sword",
+		8: "Sword",
+		10: "Staff",
+		13: "Fist Weapon",
+		15: "Dagger",
+		16: "Thrown",
+		18: "Crossbow",
+		19: "Wand",
+		20: "Fishing Pole",
+	},
+	[ItemClassArmor]: {
+		1: "Cloth",
+		2: "Leather",
+		3: "Mail",
+		4: "Plate",
+		6: "Shield",
+		7: "Libram",
+		8: "Idol",
+		9: "Totem",
+		10: "Sigil",
+	},
+};
@@ -0,0 +1,149 @@
+import * as fs from "fs";
+const fsp = fs.promises;
+import * as path from "path";
+
+import * as mkdirp from "mkdirp";
+import { RowDataPacket } from "mysql2/promise";
+
+import { Armory } from "../Armory";
+
+// Snapshot time in milliseconds followed by the recorded values
+export type RatingPoint = number[];
+
+export interface ICharacterRatingHistory {
+	// Points of [time, personal rating, matchmaker rating], by arena team type
+	[key: number]: RatingPoint[];
+}
+
+interface IRealmRatingHistory {
+	// Points of [time, team rating], by arena team id
+	teams: { [key: number]: RatingPoint[] };
+	characters: { [key: number]: ICharacterRatingHistory };
+}
+
+const HistoryDir = "data/rating-history";
+// Slot of the arena team types in character_arena_stats
+const ArenaSlotByType = { 2: 0, 3: 1, 5: 2 };
+
+/**
+ * Records the arena team ratings, personal ratings and matchmaker ratings at a regular interval,
+ * as the characters database only stores their current values.
+ * A point is only added when a value has changed since the previous snapshot.
+ */
+export class RatingHistory {
+	private armory: Armory;
+	private history: { [key: string]: IRealmRatingHistory };
+	// Realms whose history file could not be read, which must not be overwritten
+	private unreadable: Set<string>;
+	private running = false;
+
+	public constructor(armory: Armory) {
+		this.armory = armory;
+	}
+
+	public async load(): Promise<void> {
+		this.history = {};
+		this.unreadable = new Set();
+		for (const realm of this.armory.config.realms) {
+			try {
+				const buffer = await fsp.readFile(this.getFilePath(realm.name));
+				this.history[realm.name] = JSON.parse(buffer.toString());
+			} catch (err) {
+				// An empty history is only started when no snapshot was taken yet, a corrupted file is kept as is
+				if (err.code !== "ENOENT") {
+					this.armory.logger.error(`Could not read the rating history of ${realm.name}, it will not be recorded. ${err.stack ?? err}`);
+					this.unreadable.add(realm.name);
+				}
+				this.history[realm.name] = { teams: {}, characters: {} };
+			}
+		}
+	}
+
+	public start(): void {
+		const interval = this.armory.config.ratingHistoryInterval;
+		if (!(interval > 0)) {
+			return;
+		}
+
+		const snapshot = async () => {
+			if (this.running) {
+				return;
+			}
+			this.running = true;
+			try {
+				await this.snapshot();
+			} catch (err) {
+				this.armory.logger.error(`Could not record the arena ratings. ${err.stack ?? err}`);
+			}
+			this.running = false;
+		};
+		snapshot();
+		setInterval(snapshot, interval * 60 * 1000);
+	}
+
+	public getTeamHistory(realm: string, teamId: number): RatingPoint[] {
+		return this.history[realm]?.teams[teamId] ?? [];
+	}
+
+	public getCharacterHistory(realm: string, guid: number): ICharacterRatingHistory {
+		return this.history[realm]?.characters[guid] ?? {};
+	}
+
+	private async snapshot(): Promise<void> {
+		const time = Date.now();
+		await mkdirp(HistoryDir);
+
+		for (const realm of this.armory.config.realms) {
+			if (this.unreadable.has(realm.name)) {
+				continue;
+			}
+
+			const db = this.armory.getCharactersDb(realm.name);
+			const history = this.history[realm.name];
+
+			const [teams] = await db.query({
+				sql: "SELECT arenaTeamId, rating FROM arena_team",
+				timeout: this.armory.config.dbQueryTimeout,
+			});
+			for (const team of teams as RowDataPacket[]) {
+				RatingHistory.addPoint(history.teams, team.arenaTeamId, [time, team.rating]);
+			}
+
+			const [members] = await db.query({
+				sql: `
+					SELECT arena_team_member.guid, arena_team.type, arena_team_member.personalRating, character_arena_stats.matchMakerRating
+					FROM arena_team_member
+					INNER JOIN arena_team ON arena_team.arenaTeamId = arena_team_member.arenaTeamId
+					LEFT JOIN character_arena_stats ON character_arena_stats.guid = arena_team_member.guid
+						AND character_arena_stats.slot = CASE arena_team.type WHEN 2 THEN ${ArenaSlotByType[2]} WHEN 3 THEN ${ArenaSlotByType[3]} ELSE ${ArenaSlotByType[5]} END
+				`,
+				timeout: this.armory.config.dbQueryTimeout,
+			});
+			for (const member of members as RowDataPacket[]) {
+				if (!(member.guid in history.characters)) {
+					history.characters[member.guid] = {};
+				}
+				RatingHistory.addPoint(history.characters[member.guid], member.type, [time, member.personalRating, member.matchMakerRating]);
+			}
+
+			// Written to a temporary file first so that a crash cannot leave a truncated history behind
+			const filePath = this.getFilePath(realm.name);
+			await fsp.writeFile(`${filePath}.tmp`, JSON.stringify(history));
+			await fsp.rename(`${filePath}.tmp`, filePath);
+		}
+	}
+
+	private static addPoint(series: { [key: number]: RatingPoint[] }, key: number, point: RatingPoint): void {
+		if (!(key in series)) {
+			series[key] = [];
+		}
+		const last = series[key][series[key].length - 1];
+		if (last === undefined || point.some((value, i) => i > 0 && value !== last[i])) {
+			series[key].push(point);
+		}
+	}
+
+	private getFilePath(realm: string): string {
+		return path.join(process.cwd(), HistoryDir, `${realm.replace(/[^\w-]/g, "_")}.json`);
+	}
+}
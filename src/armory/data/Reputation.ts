@@ -0,0 +1,129 @@
+import { IFactionDbc } from "./DbcReader";
+
+export interface IStanding {
+	value: number;
+	rank: number;
+	rankName: string;
+	color: string;
+	current: number;
+	max: number;
+	atWar: boolean;
+}
+
+export interface IReputation {
+	id: number;
+	name: string;
+	// Undefined for headers that do not have a reputation of their own
+	standing?: IStanding;
+	factions: IReputation[];
+}
+
+export interface IReputationRow {
+	faction: number;
+	standing: number;
+	flags: number;
+}
+
+// character_reputation.flags
+const FactionFlagVisible = 0x01;
+const FactionFlagAtWar = 0x02;
+const FactionFlagHidden = 0x04;
+const FactionFlagInvisibleForced = 0x08;
+const FactionFlagInactive = 0x20;
+
+const MinStanding = -42000;
+const MaxStanding = 42999;
+// Lower bound of each rank, and upper bound of Exalted
+const RankThresholds = [MinStanding, -6000, -3000, 0, 3000, 9000, 21000, 42000, MaxStanding + 1];
+const Ranks = [
+	{ name: "Hated", color: "is-danger" },
+	{ name: "Hostile", color: "is-danger" },
+	{ name: "Unfriendly", color: "is-warning" },
+	{ name: "Neutral", color: "is-warning" },
+	{ name: "Friendly", color: "is-success" },
+	{ name: "Honored", color: "is-success" },
+	{ name: "Revered", color: "is-success" },
+	{ name: "Exalted", color: "is-success" },
+];
+
+/**
+ * Builds the reputation list of a character the way the game client groups it, using the faction hierarchy from the Faction DBC.
+ */
+export class Reputation {
+	public static getBaseStanding(faction: IFactionDbc, race: number, classId: number): number {
+		const raceMask = 1 << (race - 1);
+		const classMask = 1 << (classId - 1);
+		for (let i = 0; i < 4; ++i) {
+			const factionRaceMask = faction[`reputationRaceMask${i}`];
+			const factionClassMask = faction[`reputationClassMask${i}`];
+			if (
+				((factionRaceMask & raceMask) !== 0 || (factionRaceMask === 0 && factionClassMask !== 0)) &&
+				((factionClassMask & classMask) !== 0 || factionClassMask === 0)
+			) {
+				return faction[`reputationBase${i}`];
+			}
+		}
+		return 0;
+	}
+
+	public static makeStanding(value: number, atWar: boolean): IStanding {
+		value = Math.min(Math.max(value, MinStanding), MaxStanding);
+		const rank = RankThresholds.findIndex((threshold) => value < threshold) - 1;
+		return {
+			value,
+			rank,
+			rankName: Ranks[rank].name,
+			color: Ranks[rank].color,
+			current: value - RankThresholds[rank],
+			max: RankThresholds[rank + 1] - RankThresholds[rank],
+			atWar,
+		};
+	}
+
+	public static build(rows: IReputationRow[], factionById: { [key: number]: IFactionDbc }, race: number, classId: number): IReputation[] {
+		const root: IReputation[] = [];
+		const inactive: IReputation = { id: 0, name: "Inactive", factions: [] };
+		const nodes: { [key: number]: IReputation } = {};
+
+		const getNode = (faction: IFactionDbc): IReputation => {
+			if (!(faction.id in nodes)) {
+				nodes[faction.id] = { id: faction.id, name: faction.nameLang0, factions: [] };
+				const parent = factionById[faction.parentFactionId];
+				(parent !== undefined ? getNode(parent).factions : root).push(nodes[faction.id]);
+			}
+			return nodes[faction.id];
+		};
+
+		for (const row of rows) {
+			const faction = factionById[row.faction];
+			if (
+				faction === undefined ||
+				(row.flags & FactionFlagVisible) === 0 ||
+				(row.flags & (FactionFlagHidden | FactionFlagInvisibleForced)) !== 0
+			) {
+				continue;
+			}
+
+			const value = Reputation.getBaseStanding(faction, race, classId) + row.standing;
+			const standing = Reputation.makeStanding(value, (row.flags & FactionFlagAtWar) !== 0);
+			if ((row.flags & FactionFlagInactive) !== 0) {
+				// The game client moves inactive factions to their own header
+				inactive.factions.push({ id: faction.id, name: faction.nameLang0, standing, factions: [] });
+			} else {
+				getNode(faction).standing = standing;
+			}
+		}
+
+		const sort = (list: IReputation[]) => {
+			list.sort((a, b) => a.name.localeCompare(b.name));
+			list.forEach((rep) => sort(rep.factions));
+		};
+		sort(root);
+		sort(inactive.factions);
+		if (inactive.factions.length > 0) {
+			root.push(inactive);
+		}
+
+		return root;
+	}
+}
@@ -0,0 +1,71 @@
+import { DbcManager, ISpellDbc } from "./DbcReader";
+
+// $s1 and $m1 are the value of an effect, $o1 its total over the duration of the spell and $t1 its period,
+// $12345s1 the value of an effect of another spell
+const EffectValueToken = /\$(\d*)([smot])([1-3])/g;
+// $d is the duration of the spell, $12345d the duration of another spell
+const DurationToken = /\$(\d*)d/g;
+
+/**
+ * Formats the descriptions of spells, replacing the tokens referencing their effects with actual values.
+ */
+export class SpellText {
+	public static getEffectValue(spell: ISpellDbc, effect: number): string {
+		const basePoints: number = spell[`effectBasePoints${effect}`] ?? 0;
+		const dieSides: number = spell[`effectDieSides${effect}`] ?? 0;
+		// The value of an effect is a roll of a die with dieSides sides added to basePoints
+		const min = Math.abs(basePoints + Math.min(dieSides, 1));
+		const max = Math.abs(basePoints + dieSides);
+		return min === max ? `${min}` : `${Math.min(min, max)} to ${Math.max(min, max)}`;
+	}
+
+	public static async getDuration(dbc: DbcManager, spell: ISpellDbc): Promise<number> {
+		const duration = await dbc.spellDuration().find((d) => d.id === spell.durationIndex);
+		return duration?.duration ?? 0;
+	}
+
+	public static formatDuration(ms: number): string {
+		if (ms < 0) {
+			return "until cancelled";
+		}
+		if (ms >= 3600000) {
+			return `${parseFloat((ms / 3600000).toFixed(1))} hrs`;
+		}
+		if (ms >= 60000) {
+			return `${parseFloat((ms / 60000).toFixed(1))} min`;
+		}
+		return `${parseFloat((ms / 1000).toFixed(1))} sec`;
+	}
+
+	public static async formatDescription(dbc: DbcManager, spell: ISpellDbc): Promise<string> {
+		const description = spell.descriptionLang0 ?? "";
+		const values: { [key: string]: string } = {};
+		for (const [token, spellId, type, effect] of Array.from(description.matchAll(EffectValueToken))) {
+			const source = await SpellText.getSourceSpell(dbc, spell, spellId);
+			values[token] = source !== undefined ? await SpellText.getTokenValue(dbc, source, type, parseInt(effect, 10) - 1) : token;
+		}
+		for (const [token, spellId] of Array.from(description.matchAll(DurationToken))) {
+			const source = await SpellText.getSourceSpell(dbc, spell, spellId);
+			values[token] = source !== undefined ? SpellText.formatDuration(await SpellText.getDuration(dbc, source)) : token;
+		}
+		return description.replace(EffectValueToken, (token) => values[token]).replace(DurationToken, (token) => values[token]);
+	}
+
+	private static async getSourceSpell(dbc: DbcManager, spell: ISpellDbc, spellId: string): Promise<ISpellDbc | undefined> {
+		return spellId === "" ? spell : await dbc.spell().find((s) => s.id === parseInt(spellId, 10));
+	}
+
+	private static async getTokenValue(dbc: DbcManager, spell: ISpellDbc, type: string, effect: number): Promise<string> {
+		const period: number = spell[`effectAuraPeriod${effect}`] ?? 0;
+		if (type === "t") {
+			return `${period / 1000}`;
+		}
+		if (type === "o" && period > 0) {
+			// Periodic effects apply their value once per period over the duration of the spell
+			const ticks = Math.floor((await SpellText.getDuration(dbc, spell)) / period);
+			const value = Math.abs(spell[`effectBasePoints${effect}`] + Math.min(spell[`effectDieSides${effect}`], 1));
+			return `${value * Math.max(ticks, 1)}`;
+		}
+		return SpellText.getEffectValue(spell, effect);
+	}
+}
@@ -0,0 +1,167 @@
+import { ISpellItemEnchantmentDbc } from "./DbcReader";
+
+export interface IStatValue {
+	key: string;
+	name: string;
+	value: number;
+}
+
+export interface IStatSheet {
+	primary: IStatValue[];
+	secondary: IStatValue[];
+	armor: number;
+	resistances: IStatValue[];
+}
+
+export interface IItemStatsTemplate {
+	armor: number;
+	block: number;
+	holy_res: number;
+	fire_res: number;
+	nature_res: number;
+	frost_res: number;
+	shadow_res: number;
+	arcane_res: number;
+	[stat: string]: number;
+}
+
+const ItemEnchantmentTypeResistance = 4;
+const ItemEnchantmentTypeStat = 5;
+const MaxItemStats = 10;
+
+// Item_template.stat_typeN and SpellItemEnchantment stat arguments (ItemModType)
+const ItemModTypes: { [key: number]: { key: string; name: string } } = {
+	0: { key: "mana", name: "Mana" },
+	1: { key: "health", name: "Health" },
+	3: { key: "agility", name: "Agility" },
+	4: { key: "strength", name: "Strength" },
+	5: { key: "intellect", name: "Intellect" },
+	6: { key: "spirit", name: "Spirit" },
+	7: { key: "stamina", name: "Stamina" },
+	12: { key: "defenseRating", name: "Defense Rating" },
+	13: { key: "dodgeRating", name: "Dodge Rating" },
+	14: { key: "parryRating", name: "Parry Rating" },
+	15: { key: "blockRating", name: "Block Rating" },
+	16: { key: "meleeHitRating", name: "Melee Hit Rating" },
+	17: { key: "rangedHitRating", name: "Ranged Hit Rating" },
+	18: { key: "spellHitRating", name: "Spell Hit Rating" },
+	19: { key: "meleeCritRating", name: "Melee Critical Strike Rating" },
+	20: { key: "rangedCritRating", name: "Ranged Critical Strike Rating" },
+	21: { key: "spellCritRating", name: "Spell Critical Strike Rating" },
+	28: { key: "meleeHasteRating", name: "Melee Haste Rating" },
+	29: { key: "rangedHasteRating", name: "Ranged Haste Rating" },
+	30: { key: "spellHasteRating", name: "Spell Haste Rating" },
+	31: { key: "hitRating", name: "Hit Rating" },
+	32: { key: "critRating", name: "Critical Strike Rating" },
+	35: { key: "resilienceRating", name: "Resilience Rating" },
+	36: { key: "hasteRating", name: "Haste Rating" },
+	37: { key: "expertiseRating", name: "Expertise Rating" },
+	38: { key: "attackPower", name: "Attack Power" },
+	39: { key: "rangedAttackPower", name: "Ranged Attack Power" },
+	40: { key: "feralAttackPower", name: "Feral Attack Power" },
+	41: { key: "spellHealing", name: "Bonus Healing" },
+	42: { key: "spellDamage", name: "Bonus Damage" },
+	43: { key: "manaRegeneration", name: "Mana per 5 sec." },
+	44: { key: "armorPenetrationRating", name: "Armor Penetration Rating" },
+	45: { key: "spellPower", name: "Spell Power" },
+	46: { key: "healthRegeneration", name: "Health per 5 sec." },
+	47: { key: "spellPenetration", name: "Spell Penetration" },
+	48: { key: "blockValue", name: "Block Value" },
+};
+const PrimaryStats = [4, 3, 7, 5, 6];
+const BlockValueStat = 48;
+
+// Spell schools, index 0 (physical) is armor
+const ResistanceSchools: { [key: number]: { key: string; name: string; column: string } } = {
+	1: { key: "holy", name: "Holy", column: "holy_res" },
+	2: { key: "fire", name: "Fire", column: "fire_res" },
+	3: { key: "nature", name: "Nature", column: "nature_res" },
+	4: { key: "frost", name: "Frost", column: "frost_res" },
+	5: { key: "shadow", name: "Shadow", column: "shadow_res" },
+	6: { key: "arcane", name: "Arcane", column: "arcane_res" },
+};
+
+// Columns of item_template needed by StatSheet.addItem
+export const ItemStatsColumns = ["armor", "block", ...Object.values(ResistanceSchools).map((school) => school.column)];
+for (let i = 1; i <= MaxItemStats; ++i) {
+	ItemStatsColumns.push(`stat_type${i}`, `stat_value${i}`);
+}
+
+export class StatSheet {
+	private stats: { [key: number]: number } = {};
+	private resistances: { [key: number]: number } = {};
+	private armor = 0;
+
+	public addItem(template: IItemStatsTemplate): void {
+		this.armor += template.armor;
+		this.addStat(BlockValueStat, template.block);
+		for (const school in ResistanceSchools) {
+			this.addResistance(parseInt(school, 10), template[ResistanceSchools[school].column]);
+		}
+		for (let i = 1; i <= MaxItemStats; ++i) {
+			this.addStat(template[`stat_type${i}`], template[`stat_value${i}`]);
+		}
+	}
+
+	public addEnchantment(enchantment: ISpellItemEnchantmentDbc): void {
+		const effects = [
+			[enchantment.effect0, enchantment.effectPointsMin0, enchantment.effectArg0],
+			[enchantment.effect1, enchantment.effectPointsMin1, enchantment.effectArg1],
+			[enchantment.effect2, enchantment.effectPointsMin2, enchantment.effectArg2],
+		];
+		for (const [effect, value, arg] of effects) {
+			if (effect === ItemEnchantmentTypeStat) {
+				this.addStat(arg, value);
+			} else if (effect === ItemEnchantmentTypeResistance) {
+				if (arg === 0) {
+					this.armor += value;
+				} else {
+					this.addResistance(arg, value);
+				}
+			}
+		}
+	}
+
+	public static isPrimaryStat(stat: number): boolean {
+		return PrimaryStats.includes(stat);
+	}
+
+	public static getStatName(stat: number): string | null {
+		return ItemModTypes[stat]?.name ?? null;
+	}
+
+	public static getResistanceName(school: number): string | null {
+		return ResistanceSchools[school]?.name ?? null;
+	}
+
+	public toJSON(): IStatSheet {
+		const makeValue = (stat: number): IStatValue => ({ ...ItemModTypes[stat], value: this.stats[stat] ?? 0 });
+
+		return {
+			primary: PrimaryStats.map(makeValue),
+			secondary: Object.keys(ItemModTypes)
+				.map((stat) => parseInt(stat, 10))
+				.filter((stat) => !PrimaryStats.includes(stat) && this.stats[stat])
+				.map(makeValue),
+			armor: this.armor,
+			resistances: Object.keys(ResistanceSchools).map((school) => {
+				const { key, name } = ResistanceSchools[school];
+				return { key, name, value: this.resistances[school] ?? 0 };
+			}),
+		};
+	}
+
+	private addStat(stat: number, value: number): void {
+		if (!value || !(stat in ItemModTypes)) {
+			return;
+		}
+		this.stats[stat] = (this.stats[stat] ?? 0) + value;
+	}
+
+	private addResistance(school: number, value: number): void {
+		if (!value || !(school in ResistanceSchools)) {
+			return;
+		}
+		this.resistances[school] = (this.resistances[school] ?? 0) + value;
+	}
+}
@@ -0,0 +1,106 @@
+import { Utils } from "../Utils";
+import { DbcManager } from "./DbcReader";
+
+export interface ITalentSpec {
+	name: string | null;
+	icon: string | null;
+	points: number[];
+}
+
+export interface ITalentSummary {
+	activeGroup: number;
+	specs: ITalentSpec[];
+}
+
+/**
+ * Computes the points spent in each talent tree from the talent spells learned by a character.
+ */
+export class TalentSpecs {
+	private treesByClass: { [key: number]: { id: number; name: string; icon: string }[] };
+	private talentBySpellId: { [key: number]: { tabId: number; rank: number } };
+
+	public async load(dbc: DbcManager): Promise<void> {
+		this.treesByClass = {};
+		for await (const tab of dbc.talentTab()) {
+			const classId = Math.log2(tab.classMask) + 1;
+			if (!Number.isInteger(classId)) {
+				// Pet talent trees
+				continue;
+			}
+			const icon = await dbc.spellIcon().find((icon) => icon.id === tab.spellIconId);
+			if (!(classId in this.treesByClass)) {
+				this.treesByClass[classId] = [];
+			}
+			this.treesByClass[classId].push({
+				id: tab.id,
+				name: tab.nameLang0,
+				icon: Utils.processSpellIconTexture(icon?.textureFilename ?? ""),
+			});
+		}
+
+		this.talentBySpellId = {};
+		for await (const talent of dbc.talent()) {
+			const ranks = [talent.spellRank0, talent.spellRank1, talent.spellRank2, talent.spellRank3, talent.spellRank4];
+			ranks.forEach((spell, rank) => {
+				if (spell !== 0) {
+					this.talentBySpellId[spell] = { tabId: talent.tabId, rank: rank + 1 };
+				}
+			});
+		}
+	}
+
+	public getSpec(classId: number, learnedSpells: number[]): ITalentSpec {
+		const trees = this.treesByClass[classId] ?? [];
+		const points = trees.map(() => 0);
+		for (const spell of learnedSpells) {
+			const talent = this.talentBySpellId[spell];
+			const tree = trees.findIndex((tree) => tree.id === talent?.tabId);
+			if (tree !== -1) {
+				points[tree] += talent.rank;
+			}
+		}
+
+		// The primary tree is the one with the most points, if any were spent
+		const max = Math.max(0, ...points);
+		const primary = max > 0 ? trees[points.indexOf(max)] : undefined;
+		return {
+			name: primary?.name ?? null,
+			icon: primary?.icon ?? null,
+			points,
+		};
+	}
+
+	/**
+	 * Formats the spec of a character as "Name (x/y/z)" from the result of activeTalentsSql.
+	 */
+	public formatSpec(classId: number, activeTalents: string | null): string {
+		if (activeTalents === null) {
+			return "";
+		}
+		const spec = this.getSpec(classId, TalentSpecs.parseActiveTalents(activeTalents));
+		return spec.name === null ? "" : `${spec.name} (${spec.points.join("/")})`;
+	}
+
+	/**
+	 * Parses the result of activeTalentsSql into a list of talent spells.
+	 */
+	public static parseActiveTalents(activeTalents: string | null): number[] {
+		if (activeTalents === null) {
+			return [];
+		}
+		return String(activeTalents)
+			.split(",")
+			.map((spell) => parseInt(spell, 10));
+	}
+
+	/**
+	 * Builds an SQL subquery listing the talent spells of the active talent group of a character, separated by commas.
+	 */
+	public static activeTalentsSql(guidColumn: string, activeTalentGroupColumn: string): string {
+		return `
+			SELECT GROUP_CONCAT(ts_talent.spell)
+			FROM character_talent ts_talent
+			WHERE ts_talent.guid = ${guidColumn} AND (ts_talent.specMask & (1 << ${activeTalentGroupColumn})) <> 0
+		`;
+	}
+}
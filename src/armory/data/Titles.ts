@@ -0,0 +1,79 @@
+import { DbcManager } from "./DbcReader";
+
+export interface ITitle {
+	id: number;
+	maskId: number;
+	// Title without the player name placeholder, e.g. "Starcaller"
+	name: string;
+	// Title with a %s placeholder for the player name, e.g. "%s the Insane"
+	format: string;
+}
+
+export interface IChosenTitle {
+	prefix: string;
+	suffix: string;
+}
+
+/**
+ * Decodes the titles known by a character, `characters.knownTitles` being a bitmask stored as a list of 32-bit integers.
+ */
+export class Titles {
+	private titles: ITitle[];
+	private titleByMaskId: { [key: number]: ITitle };
+
+	public async load(dbc: DbcManager): Promise<void> {
+		this.titles = [];
+		this.titleByMaskId = {};
+		for await (const row of dbc.charTitles()) {
+			const title: ITitle = {
+				id: row.id,
+				maskId: row.maskId,
+				name: row.nameLang0.replace("%s", "").replace(/^\s*,/, "").trim(),
+				format: row.nameLang0,
+			};
+			this.titles.push(title);
+			this.titleByMaskId[title.maskId] = title;
+		}
+		this.titles.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	public all(): ITitle[] {
+		return this.titles;
+	}
+
+	public getTitle(id: number): ITitle | undefined {
+		return this.titles.find((title) => title.id === id);
+	}
+
+	/**
+	 * Splits the chosen title of a character around its name, `characters.chosenTitle` being the bit index of the title.
+	 */
+	public getChosenTitle(chosenTitle: number): IChosenTitle | null {
+		const title = this.titleByMaskId[chosenTitle];
+		if (chosenTitle === 0 || title === undefined) {
+			return null;
+		}
+		const [prefix, suffix] = title.format.split("%s");
+		return { prefix, suffix: suffix ?? "" };
+	}
+
+	public getKnownTitles(knownTitles: string | null): ITitle[] {
+		const known = (knownTitles ?? "")
+			.trim()
+			.split(" ")
+			.map((value) => parseInt(value, 10) >>> 0);
+		return this.titles.filter((title) => {
+			const value = known[Math.floor(title.maskId / 32)] ?? 0;
+			return (value & (1 << title.maskId % 32)) !== 0;
+		});
+	}
+
+	/**
+	 * Builds an SQL condition checking that the bit of a title is set in the known titles of a character.
+	 */
+	public static knownTitleSql(knownTitlesColumn: string, title: ITitle): string {
+		const index = Math.floor(title.maskId / 32);
+		const bit = 2 ** (title.maskId % 32);
+		return `(CAST(SUBSTRING_INDEX(SUBSTRING_INDEX(${knownTitlesColumn}, ' ', ${index + 1}), ' ', -1) AS UNSIGNED) & ${bit}) <> 0`;
+	}
+}
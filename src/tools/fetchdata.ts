@@ -11,9 +11,38 @@ import * as cliProgress from "cli-progress";
 import fetch, { Response } from "node-fetch";
 import promisepool = require("@supercharge/promise-pool");
 
-import { DbcManager, IItemAppearanceDbc, IItemModifiedAppearanceDbc, IMountDbc, IMountXDisplayDbc } from "../armory/data/DbcReader";
+import {
+	DbcFiles,
+	DbcManager,
+	ICreatureDbc,
+	IItemAppearanceDbc,
+	IItemModifiedAppearanceDbc,
+	IMountDbc,
+	IMountXDisplayDbc,
+} from "../armory/data/DbcReader";
 
 const baseUrl = "https://wow.zamimg.com/modelviewer/live";
+const dbcBaseUrl = "https://wago.tools/db2";
+
+// DBC exports that are not part of the data release, by table name and client build
+const dbcExports = [
+	{ table: "Faction", build: "3.3.5.12340", file: DbcFiles.faction },
+	{ table: "SkillLine", build: "3.3.5.12340", file: DbcFiles.skillLine },
+	{ table: "SkillLineAbility", build: "3.3.5.12340", file: DbcFiles.skillLineAbility },
+	// The release has an older Spell export, which lacks columns such as EffectItemType
+	{ table: "Spell", build: "3.3.5.12340", file: DbcFiles.spell },
+	{ table: "Achievement_Criteria", build: "3.3.5.12340", file: DbcFiles.achievementCriteria },
+	{ table: "CreatureFamily", build: "3.3.5.12340", file: DbcFiles.creatureFamily },
+	{ table: "Creature", build: "9.2.0.41462", file: DbcFiles.creature },
+	{ table: "CharTitles", build: "3.3.5.12340", file: DbcFiles.charTitles },
+	{ table: "ItemSet", build: "3.3.5.12340", file: DbcFiles.itemSet },
+	{ table: "GemProperties", build: "3.3.5.12340", file: DbcFiles.gemProperties },
+	{ table: "ItemRandomProperties", build: "3.3.5.12340", file: DbcFiles.itemRandomProperties },
+	{ table: "ItemRandomSuffix", build: "3.3.5.12340", file: DbcFiles.itemRandomSuffix },
+	{ table: "SpellCastTimes", build: "3.3.5.12340", file: DbcFiles.spellCastTimes },
+	{ table: "SpellDuration", build: "3.3.5.12340", file: DbcFiles.spellDuration },
+	{ table: "SpellRange", build: "3.3.5.12340", file: DbcFiles.spellRange },
+];
 
 const globAsync = (pattern: string, options?: glob.IOptions) => {
 	return new Promise<string[]>((res, rej) => {
@@ -91,12 +120,15 @@ let dbcItemAppearanceById: { [key: number]: IItemAppearanceDbc };
 let dbcItemModifiedAppearanceByItemId: { [key: number]: IItemModifiedAppearanceDbc };
 let dbcMountBySourceSpellId: { [key: number]: IMountDbc };
 let dbcMountDisplayByMountId: { [key: number]: IMountXDisplayDbc };
+let dbcCreatureById: { [key: number]: ICreatureDbc };
 
 const classIdArmor = 4;
 const classIdWeapon = 2;
 const invTypeShield = 14;
 const invTypeOffHand = 23;
 const spellMechanicMounted = 21;
+const spellEffectSummon = 28;
+const skillLineCompanions = 778;
 
 const modelsDownloadQueue = new Set<number>();
 const texturesDownloadQueue = new Set<number>();
@@ -276,6 +308,21 @@ async function downloadWeapons(): Promise<void> {
 	progress.stop();
 }
 
+async function downloadDbcs(): Promise<void> {
+	const progress = new Progress("Downloading DBC exports...", dbcExports.length);
+
+	for (const dbcExport of dbcExports) {
+		const res = await fetch(`${dbcBaseUrl}/${dbcExport.table}/csv?build=${dbcExport.build}`);
+		if (res.status !== 200) {
+			throw new HttpRequestError(res);
+		}
+		await fsp.writeFile(dbcExport.file, await res.text());
+		progress.increment();
+	}
+
+	progress.stop();
+}
+
 async function readDbcData(): Promise<void> {
 	console.log("Reading DBC data...");
 
@@ -303,6 +350,11 @@ async function readDbcData(): Promise<void> {
 			dbcMountDisplayByMountId[row.mountId] = row;
 		}
 	}
+
+	dbcCreatureById = {};
+	for await (const row of dbc.creature()) {
+		dbcCreatureById[row.id] = row;
+	}
 }
 
 async function downloadMounts(): Promise<void> {
@@ -331,6 +383,42 @@ async function downloadMounts(): Promise<void> {
 	progress.stop();
 }
 
+async function downloadCompanions(): Promise<void> {
+	const companionSpells = await dbc
+		.skillLineAbility()
+		.filter((ability) => ability.skillLine === skillLineCompanions)
+		.map((ability) => ability.spell)
+		.toArray();
+	const summonSpells = await dbc
+		.spell()
+		.filter((spell) => companionSpells.includes(spell.id))
+		.toArray();
+	const progress = new Progress("Downloading companion data...", summonSpells.length);
+
+	await promisepool.PromisePool.for(summonSpells)
+		.withConcurrency(50)
+		.process(async (spell) => {
+			const effects = [
+				[spell.effect0, spell.effectMiscValue0],
+				[spell.effect1, spell.effectMiscValue1],
+				[spell.effect2, spell.effectMiscValue2],
+			];
+			const summon = effects.find(([effect]) => effect === spellEffectSummon);
+			const creature = summon !== undefined ? dbcCreatureById[summon[1]] : undefined;
+			if (creature === undefined || creature.displayId0 === 0) {
+				progress.increment();
+				return;
+			}
+
+			const json = await download("meta/npc", `${creature.displayId0}.json`);
+			queueTexturesAndModels(json);
+
+			progress.increment();
+		});
+
+	progress.stop();
+}
+
 async function downloadTextures(): Promise<void> {
 	const progress = new Progress("Downloading textures...", texturesDownloadQueue.size);
 
@@ -415,11 +503,17 @@ async function parseModels(): Promise<void> {
 async function main(): Promise<void> {
 	const sw = new Stopwatch();
 
+	await downloadDbcs(); // Download the DBC exports missing from the data release
+	if (process.argv.includes("--dbc-only")) {
+		sw.stop("Everything done in {time}");
+		return;
+	}
 	await readDbcData();
 	await downloadRaces(); // Download info for all races
 	await downloadArmors(); // Download info for all armors
 	await downloadWeapons(); // Download info for all weapons
 	await downloadMounts(); // Download info for all mounts
+	await downloadCompanions(); // Download info for all companion pets
 	await downloadModels(); // Download all queued models
 	await parseModels(); // Read model files to find texture references
 	await downloadTextures(); // Download all queued textures
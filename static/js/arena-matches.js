@@ -0,0 +1,63 @@
+// Match history of arena teams and characters, from the log_arena_fights and log_arena_memberstats tables
+
+function formatMatchDuration(seconds) {
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+function createArenaMatchesTable(table, url, realm, aowow, websiteRoot) {
+	const renderMember = member => {
+		const icon = member.class !== null ? `<img src="${aowow}/static/images/wow/icons/small/class_${member.class}.jpg" alt="">` : "";
+		const stats = `${member.damage.toLocaleString()} dmg, ${member.healing.toLocaleString()} heal, ${member.killingBlows} KB`;
+		return `<div class="match-member">${icon}<a href="${websiteRoot}/character/${realm}/${member.name}/pvp">${member.name}</a> <span class="match-member-stats">${stats}</span></div>`;
+	};
+
+	return $(table).DataTable({
+		processing: true,
+		serverSide: true,
+		searching: false,
+		order: [[0, "desc"]],
+		ajax: url,
+		columnDefs: [
+			{
+				targets: 0,
+				render: time => new Date(time).toLocaleString(),
+			},
+			{
+				targets: 1,
+				render: type => `${type}v${type}`,
+			},
+			{
+				targets: 2,
+				render: opponent => opponent === null ? "&ndash;" : `<a href="${websiteRoot}/arena/team/${realm}/${opponent}">${opponent}</a>`,
+			},
+			{
+				targets: 3,
+				render: won => won === 1 ? `<span class="has-text-success">Win</span>` : `<span class="has-text-danger">Loss</span>`,
+			},
+			{
+				targets: 5,
+				render: change => change > 0 ? `<span class="has-text-success">+${change}</span>` : `<span class="has-text-danger">${change}</span>`,
+			},
+			{
+				targets: 6,
+				render: formatMatchDuration,
+			},
+			{
+				targets: 7,
+				orderable: false,
+				render: (fightId, type, row, meta) => {
+					// The last column is the team the match is seen from
+					const members = meta.settings.json.members[fightId] ?? [];
+					const team = row[row.length - 1];
+					const allies = members.filter(member => member.team === team).map(renderMember).join("");
+					const opponents = members.filter(member => member.team !== team).map(renderMember).join("");
+					return `<div class="match-team">${allies}</div><div class="match-team match-opponents">${opponents}</div>`;
+				},
+			},
+		],
+		responsive: {
+			details: true,
+		},
+	});
+}
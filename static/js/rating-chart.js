@@ -0,0 +1,43 @@
+// Rating over time charts, from the snapshots recorded by the rating history job
+
+function createRatingChart(container, series) {
+	const width = 640;
+	const height = 220;
+	const margin = { top: 10, right: 10, bottom: 24, left: 44 };
+	const now = Date.now();
+
+	// A point is only recorded when a rating changes, so every series holds its last value until now
+	const lines = series
+		.map(s => ({ ...s, points: s.points.filter(point => point[1] !== null) }))
+		.filter(s => s.points.length > 0)
+		.map(s => ({ ...s, points: [...s.points, [now, s.points[s.points.length - 1][1]]] }));
+	if (lines.length === 0) {
+		$(container).text("No rating recorded yet.");
+		return;
+	}
+
+	const points = lines.flatMap(line => line.points);
+	const minTime = Math.min(...points.map(point => point[0]));
+	const minRating = Math.floor(Math.min(...points.map(point => point[1])) / 100) * 100;
+	const maxRating = Math.max(minRating + 100, Math.ceil(Math.max(...points.map(point => point[1])) / 100) * 100);
+	const x = time => margin.left + (time - minTime) / Math.max(now - minTime, 1) * (width - margin.left - margin.right);
+	const y = rating => height - margin.bottom - (rating - minRating) / (maxRating - minRating) * (height - margin.top - margin.bottom);
+
+	let svg = "";
+	for (let i = 0; i <= 4; ++i) {
+		const rating = Math.round(minRating + (maxRating - minRating) * i / 4);
+		svg += `<line class="grid" x1="${margin.left}" x2="${width - margin.right}" y1="${y(rating)}" y2="${y(rating)}"></line>`;
+		svg += `<text class="axis" x="${margin.left - 4}" y="${y(rating) + 4}" text-anchor="end">${rating}</text>`;
+	}
+	svg += `<text class="axis" x="${margin.left}" y="${height - 6}">${new Date(minTime).toLocaleDateString()}</text>`;
+	svg += `<text class="axis" x="${width - margin.right}" y="${height - 6}" text-anchor="end">${new Date(now).toLocaleDateString()}</text>`;
+
+	for (const line of lines) {
+		// Step lines, the ratings change at the time of the snapshots
+		const path = line.points.map((point, i) => i === 0 ? `M${x(point[0])},${y(point[1])}` : `H${x(point[0])} V${y(point[1])}`).join(" ");
+		svg += `<path d="${path}" stroke="${line.color}"><title>${line.label}</title></path>`;
+	}
+
+	const legend = lines.map(line => `<span class="rating-chart-legend"><span style="background: ${line.color}"></span>${line.label}</span>`).join("");
+	$(container).html(`<svg class="rating-chart" viewBox="0 0 ${width} ${height}">${svg}</svg><div>${legend}</div>`);
+}
@@ -0,0 +1,171 @@
+// Talent tree rendering and build strings, shared by the character talents page and the talent calculator
+
+function createTalentTree(data, learnedTalents, container, aowow) {
+	const $columns = $(container).find(".col");
+	let points = 0;
+
+	for (let i = 0; i < 4; ++i) {
+		const nbRows = Math.max(...data.spells.filter(s => s.columnIndex === i).map(s => s.tierId));
+		const $column = $columns.eq(i);
+		if (nbRows < 0) {
+			// Remove empty column
+			$column.remove();
+			continue;
+		}
+		for (let j = 0; j <= nbRows; ++j) {
+			$("<div>")
+				.addClass("iconmedium")
+				.appendTo($column);
+		}
+	}
+
+	for (const spell of data.spells) {
+		const $column = $columns.eq(spell.columnIndex);
+		const $placeholder = $column.find(".iconmedium").eq(spell.tierId);
+		const $template = $("#talent-template");
+		const $talent = $template.clone(false);
+		$talent.removeAttr("id");
+		$talent.find(".icon").css("background-image", `url("${aowow}/static/images/wow/icons/medium/${spell.icon}.jpg")`);
+		const rank = spell.id in learnedTalents ? learnedTalents[spell.id].rank : 0;
+		if (handlebarsData.localTooltips) {
+			const tooltip = `${handlebarsData.websiteRoot}/tooltip/spell/${spell.spellRank0}?rank=${rank}`;
+			$talent.find("a").attr("href", tooltip).attr("data-tooltip", tooltip);
+		} else {
+			$talent.find("a").attr("href", `${aowow}/?spell=${spell["spellRank" + Math.max(rank - 1, 0)]}`);
+		}
+		$talent.data("id", spell.id);
+
+		if (spell.id in learnedTalents) {
+			points += learnedTalents[spell.id].rank;
+			const ranks = [spell.spellRank0, spell.spellRank1, spell.spellRank2, spell.spellRank3, spell.spellRank4].filter(r => r !== 0).length;
+			const maxRank = learnedTalents[spell.id].rank === ranks;
+			$talent
+				.removeClass("empty")
+				.addClass(maxRank ? "full" : "notfull");
+			$talent.attr("rank", `${learnedTalents[spell.id].rank}/${ranks}`);
+			$talent.data("rank", learnedTalents[spell.id].rank);
+		}
+
+		$placeholder.replaceWith($talent);
+	}
+
+	// Add arrows
+	for (let i = 0; i < 4; ++i) {
+		const $column = $columns.eq(i);
+		for (const icon of $column.find(".iconmedium")) {
+			const $icon = $(icon);
+			const spell = data.spells.find(s => s.id === $icon.data("id"));
+			if (spell === undefined || spell.prereqTalent0 === 0) {
+				continue;
+			}
+			const req = data.spells.find(s => s.id === spell.prereqTalent0);
+			if (req === undefined) {
+				continue;
+			}
+			if (req.columnIndex === spell.columnIndex) {
+				// Down
+				const height = (44 + 14) * (spell.tierId - req.tierId - 1) + 25;
+				const arrowFile = $icon.data("rank") > 0 ? "2" : "";
+				createTalentArrow(15, height, 16, undefined, -(height - 8), "down" + arrowFile, "center bottom", $icon, aowow);
+			} else if (req.tierId === spell.tierId && req.columnIndex < spell.columnIndex) {
+				// Right
+				const width = (44 + 14) * (spell.columnIndex - req.columnIndex - 1) + 23;
+				const arrowFile = $icon.data("rank") > 0 ? "2" : "";
+				createTalentArrow(width, 15, -(width - 8), undefined, 16, "right" + arrowFile, "right center", $icon, aowow);
+			} else if (req.tierId === spell.tierId && req.columnIndex > spell.columnIndex) {
+				// Left
+				const width = (44 + 14) * (req.columnIndex - spell.columnIndex - 1) + 23;
+				const arrowFile = $icon.data("rank") > 0 ? "2" : "";
+				createTalentArrow(width, 15, undefined, -(width - 8), 16, "left" + arrowFile, "left center", $icon, aowow)
+			} else if (req.tierId < spell.tierId && req.columnIndex < spell.columnIndex) {
+				// Right Down
+				const width = 44 * (spell.columnIndex - req.columnIndex) + 2;
+				const left = -((44 + 14) * (spell.columnIndex - req.columnIndex - 1) + 15);
+				const top = -((44 + 14) * (spell.tierId - req.tierId) - 14);
+				const arrowFile = $icon.data("rank") > 0 ? "2" : "";
+				createTalentArrow(width, 15, left, undefined, top, "rightdown" + arrowFile, "right center", $icon, aowow);
+
+				const height = (44 + 14) * (spell.tierId - req.tierId - 1) + 40;
+				createTalentArrow(15, height, 16, undefined, -(height - 8), "down" + arrowFile, "center bottom", $icon, aowow);
+			} else {
+				// Left Down
+				const width = 44 * (req.columnIndex - spell.columnIndex) - 1;
+				const right = -((44 + 14) * (req.columnIndex - spell.columnIndex - 1) + 15);
+				const top = -((44 + 14) * (spell.tierId - req.tierId) - 14);
+				const arrowFile = $icon.data("rank") > 0 ? "2" : "";
+				createTalentArrow(width, 15, undefined, right, top, "leftdown" + arrowFile, "left center", $icon, aowow);
+
+				const height = (44 + 14) * (spell.tierId - req.tierId - 1) + 40;
+				createTalentArrow(15, height, 16, undefined, -(height - 8), "down" + arrowFile, "center bottom", $icon, aowow);
+			}
+		}
+	}
+
+	$(container).find(".header .points").text(points);
+}
+
+function createTalentArrow(width, height, left, right, top, file, bgPos, container, aowow) {
+	const $arrow = $("<div>");
+	$arrow.css("position", "absolute");
+	if (left !== undefined) {
+		$arrow.css("left", `${left}px`);
+	}
+	if (right !== undefined) {
+		$arrow.css("right", `${right}px`);
+	}
+	$arrow.css("top", `${top}px`);
+	$arrow.css("width", `${width}px`);
+	$arrow.css("height", `${height}px`);
+	$arrow.css("background-image", `url("${aowow}/static/images/TalentCalc/arrows/${file}.png")`);
+	$arrow.css("background-position", bgPos);
+	$(container).append($arrow);
+}
+
+// Finds the talents of a tree among the learned spells, each rank of a talent being a different spell
+function getLearnedTalents(tree, spells) {
+	const learned = {};
+	for (const spell of spells) {
+		for (const talent of tree.spells) {
+			const ranks = [talent.spellRank0, talent.spellRank1, talent.spellRank2, talent.spellRank3, talent.spellRank4];
+			const idx = ranks.indexOf(spell);
+			if (idx !== -1) {
+				learned[talent.id] = { spell: talent, rank: idx + 1 };
+				break;
+			}
+		}
+	}
+	return learned;
+}
+
+function sortTalents(tree) {
+	return [...tree.spells].sort((a, b) => a.tierId - b.tierId || a.columnIndex - b.columnIndex);
+}
+
+// Encodes the ranks of each talent as one digit per talent ordered by tier and column, one group per tree, e.g. "2305-0-55"
+function encodeTalentBuild(trees, learnedPerTree) {
+	const groups = trees.map((tree, idx) =>
+		sortTalents(tree)
+			.map(talent => learnedPerTree[idx][talent.id]?.rank ?? 0)
+			.join("")
+			.replace(/0+$/, "")
+	);
+	while (groups.length > 0 && groups[groups.length - 1] === "") {
+		groups.pop();
+	}
+	return groups.map(group => group === "" ? "0" : group).join("-");
+}
+
+function decodeTalentBuild(trees, build) {
+	const groups = (build ?? "").split("-");
+	return trees.map((tree, idx) => {
+		const learned = {};
+		const digits = groups[idx] ?? "";
+		sortTalents(tree).forEach((talent, talentIdx) => {
+			const rank = parseInt(digits[talentIdx], 10);
+			if (rank > 0) {
+				learned[talent.id] = { spell: talent, rank };
+			}
+		});
+		return learned;
+	});
+}
@@ -0,0 +1,47 @@
+// Shows the tooltips rendered by the armory when hovering elements with a data-tooltip attribute,
+// used instead of aowow's power.js when localTooltips is enabled in the config
+$(() => {
+	const cache = {};
+	const $tooltip = $("<div>").addClass("armory-tooltip").hide().appendTo("body");
+	let current = null;
+
+	function move(e) {
+		// Keep the tooltip inside of the window, on the left of the cursor if there is no room on its right
+		const offset = 16;
+		let left = e.pageX + offset;
+		if (left + $tooltip.outerWidth() > $(window).scrollLeft() + $(window).width()) {
+			left = Math.max(0, e.pageX - offset - $tooltip.outerWidth());
+		}
+		let top = e.pageY + offset;
+		if (top + $tooltip.outerHeight() > $(window).scrollTop() + $(window).height()) {
+			top = Math.max($(window).scrollTop(), e.pageY - offset - $tooltip.outerHeight());
+		}
+		$tooltip.css({ left, top });
+	}
+
+	function show(html, e) {
+		$tooltip.html(html).show();
+		move(e);
+	}
+
+	$(document)
+		.on("mouseenter", "[data-tooltip]", (e) => {
+			const url = $(e.currentTarget).attr("data-tooltip");
+			current = url;
+			if (url in cache) {
+				show(cache[url], e);
+				return;
+			}
+			$.get(url).done((html) => {
+				cache[url] = html;
+				if (current === url) {
+					show(html, e);
+				}
+			});
+		})
+		.on("mousemove", "[data-tooltip]", (e) => move(e))
+		.on("mouseleave", "[data-tooltip]", () => {
+			current = null;
+			$tooltip.hide();
+		});
+});